@@ -1,20 +1,66 @@
 import HttpClientError from "../httpClientError.js"
+import { RAWResponseConfig, ResolvedRAWRequestConfig } from "../types.js"
+
+import {
+  createProgressReporter,
+  getContentLength,
+  toUploadStream,
+  trackStream,
+} from "./progress.js"
 import {
-  RAWResponseConfig,
-  ResolvedRAWRequestConfig,
-  ResponseType,
-} from "../types.js"
-import { isHttpClientError } from "../utils.js"
+  AdapterTimings,
+  buildRequestHeaders,
+  buildRequestURL,
+  parseResponseData,
+  prepareRequestBody,
+  replaceResponseBody,
+  settleResponse,
+} from "./shared.js"
+
+let requestStreamsSupported: boolean | undefined
+
+/**
+ * Detect whether fetch can send ReadableStream request bodies.
+ *
+ * Runtimes without support ignore the duplex option, or encode the stream as
+ * text with a Content-Type. Browsers still require an HTTP/2 connection.
+ *
+ * @returns Whether request bodies can be streamed.
+ */
+export function supportsRequestStreams(): boolean {
+  if (requestStreamsSupported === undefined) {
+    let duplexAccessed = false
+
+    try {
+      const hasContentType = new Request("http://localhost", {
+        method: "POST",
+        body: new ReadableStream(),
+        get duplex() {
+          duplexAccessed = true
+          return "half"
+        },
+      } as RequestInit).headers.has("Content-Type")
+
+      requestStreamsSupported = duplexAccessed && !hasContentType
+    } catch {
+      requestStreamsSupported = false
+    }
+  }
+
+  return requestStreamsSupported
+}
 
 /**
  * The fetch adapter.
  *
  * @template ForceSignal - Whether to force the signal to be true or false
  * @param config - The request config.
+ * @param fetchImpl - The fetch implementation to use, defaults to the global fetch.
  * @returns The response config.
  */
 export default async function adapter<ForceSignal extends boolean>(
-  config: ResolvedRAWRequestConfig<ForceSignal>
+  config: ResolvedRAWRequestConfig<ForceSignal>,
+  fetchImpl: typeof fetch = globalThis.fetch
 ): Promise<RAWResponseConfig> {
   // Check if request is already canceled
   if (config.signal && config.signal.aborted) {
@@ -25,84 +71,16 @@ export default async function adapter<ForceSignal extends boolean>(
     )
   }
 
-  // Build URL
-  let requestUrl: URL
-  try {
-    if (config.url instanceof URL) {
-      requestUrl = new URL(config.url.href)
-    } else if (config.baseURL instanceof URL) {
-      requestUrl = new URL(config.url || "", config.baseURL)
-    } else if (config.baseURL) {
-      requestUrl = new URL(config.url || "", config.baseURL)
-    } else if (config.url) {
-      requestUrl = new URL(config.url)
-    } else {
-      throw new HttpClientError(
-        "URL is required",
-        HttpClientError.ERR_BAD_CONFIG_VALUE,
-        config
-      )
-    }
-  } catch (error) {
-    if (isHttpClientError(error)) {
-      throw error
-    }
-
-    throw new HttpClientError(
-      `Invalid URL: ${error instanceof Error ? error.message : String(error)}`,
-      HttpClientError.ERR_INVALID_URL,
-      config
-    )
-  }
+  const timings: AdapterTimings = { start: performance.now() }
+  const requestUrl = buildRequestURL(config)
+  const requestBody = prepareRequestBody(config)
+  const requestHeaders = buildRequestHeaders(config, requestBody)
 
-  // Add search params
-  if (config.searchParams) {
-    if (config.searchParams instanceof URLSearchParams) {
-      config.searchParams.forEach((value, key) => {
-        requestUrl.searchParams.append(key, value)
-      })
-    } else {
-      // Record<string, unknown | readonly unknown[]>
-      for (const [key, value] of Object.entries(config.searchParams)) {
-        if (Array.isArray(value)) {
-          for (const item of value) {
-            requestUrl.searchParams.append(key, String(item))
-          }
-        } else if (value !== null && value !== undefined) {
-          requestUrl.searchParams.append(key, String(value))
-        }
-      }
-    }
-  }
-
-  // Prepare request body
-  let requestBody: RequestInit["body"] | undefined
-  if (config.data !== undefined && config.data !== null) {
-    // If data is already a valid RequestInit body type, use it directly
-    if (
-      typeof config.data === "string" ||
-      config.data instanceof FormData ||
-      config.data instanceof Blob ||
-      config.data instanceof ArrayBuffer ||
-      config.data instanceof ReadableStream
-    ) {
-      requestBody = config.data as RequestInit["body"]
-    } else if (ArrayBuffer.isView(config.data)) {
-      // ArrayBufferView needs to be cast to BodyInit
-      requestBody = config.data as BodyInit
-    } else {
-      // Otherwise, serialize as JSON
-      try {
-        requestBody = JSON.stringify(config.data)
-      } catch (error) {
-        throw new HttpClientError(
-          `Failed to serialize request data: ${error instanceof Error ? error.message : String(error)}`,
-          HttpClientError.ERR_BAD_REQUEST,
-          config
-        )
-      }
-    }
-  }
+  // Stream the request body so that its upload can be observed
+  const upload =
+    config.onUploadProgress && requestBody
+      ? await toUploadStream(requestBody, requestHeaders)
+      : undefined
 
   // Setup timeout with AbortController
   let timeoutId: ReturnType<typeof setTimeout> | undefined
@@ -192,11 +170,21 @@ export default async function adapter<ForceSignal extends boolean>(
     finalSignal = config.signal
   }
 
+  let body = requestBody
+  if (upload && config.onUploadProgress) {
+    body = trackStream(
+      upload.stream,
+      createProgressReporter(config.onUploadProgress, upload.total, finalSignal)
+    )
+  }
+
   // Prepare fetch options
-  const fetchOptions: RequestInit = {
+  // Streamed bodies require half duplex, which is not in the RequestInit type
+  const fetchOptions: RequestInit & { duplex?: "half" } = {
     method: config.method || "GET",
-    headers: config.headers,
-    body: requestBody,
+    headers: requestHeaders,
+    body,
+    duplex: body instanceof ReadableStream ? "half" : undefined,
     signal: finalSignal,
     cache: config.cache,
     credentials: config.credentials,
@@ -233,32 +221,17 @@ export default async function adapter<ForceSignal extends boolean>(
     }
   }
 
-  // Set Content-Type header for JSON body
-  if (
-    requestBody &&
-    typeof requestBody === "string" &&
-    !(fetchOptions.headers instanceof Headers
-      ? fetchOptions.headers.has("Content-Type")
-      : fetchOptions.headers && "Content-Type" in fetchOptions.headers)
-  ) {
-    if (!fetchOptions.headers) {
-      fetchOptions.headers = {}
-    }
-    if (fetchOptions.headers instanceof Headers) {
-      fetchOptions.headers.set("Content-Type", "application/json")
-    } else if (Array.isArray(fetchOptions.headers)) {
-      fetchOptions.headers.push(["Content-Type", "application/json"])
-    } else {
-      ;(fetchOptions.headers as Record<string, string>)["Content-Type"] =
-        "application/json"
-    }
-  }
-
   try {
     let response: Response
     try {
-      response = await fetch(requestUrl, nextFetchOptions)
+      response = await fetchImpl(requestUrl, nextFetchOptions)
+      timings.headers = performance.now()
     } catch (error) {
+      // Errors of a custom fetch implementation may already carry their code
+      if (error instanceof HttpClientError) {
+        throw error
+      }
+
       // Handle abort/cancel errors - distinguish between timeout and user cancellation
       if (error instanceof Error && error.name === "AbortError") {
         handleAbortError()
@@ -272,121 +245,30 @@ export default async function adapter<ForceSignal extends boolean>(
       )
     }
 
-    // Parse response based on responseType
-    const responseType: ResponseType = config.responseType || "json"
-    let responseData: unknown
-
-    try {
-      switch (responseType) {
-        case "json":
-          try {
-            const text = await response.text()
-            responseData = text ? JSON.parse(text) : null
-          } catch (parseError) {
-            throw new HttpClientError(
-              `Failed to parse JSON response: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
-              HttpClientError.ERR_BAD_RESPONSE,
-              config,
-              {
-                isResponseConfig: true,
-                requestConfig: config,
-                ...response,
-              } as RAWResponseConfig
-            )
-          }
-          break
-
-        case "text":
-          responseData = await response.text()
-          break
-
-        case "blob":
-          responseData = await response.blob()
-          break
-
-        case "arraybuffer":
-          responseData = await response.arrayBuffer()
-          break
-
-        case "stream":
-          responseData = response.body
-          break
-
-        case "formdata":
-          responseData = await response.formData()
-          break
-
-        case "document":
-          // document type is typically for XML/HTML, treat as text
-          responseData = await response.text()
-          break
-
-        default:
-          // Default to json
-          try {
-            const text = await response.text()
-            responseData = text ? JSON.parse(text) : null
-          } catch (parseError) {
-            throw new HttpClientError(
-              `Failed to parse JSON response: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
-              HttpClientError.ERR_BAD_RESPONSE,
-              config,
-              {
-                isResponseConfig: true,
-                requestConfig: config,
-                ...response,
-              } as RAWResponseConfig
-            )
-          }
-      }
-    } catch (error) {
-      if (isHttpClientError(error)) {
-        throw error
-      }
-
-      // Handle abort/cancel errors during body reading
-      if (error instanceof Error && error.name === "AbortError") {
-        handleAbortError()
-      }
-
-      // Handle parsing errors
-      throw new HttpClientError(
-        `Failed to parse response: ${error instanceof Error ? error.message : String(error)}`,
-        HttpClientError.ERR_BAD_RESPONSE,
-        config,
-        {
-          isResponseConfig: true,
-          requestConfig: config,
-          ...response,
-        } as RAWResponseConfig
+    // Observe the response body to report download progress
+    if (config.onDownloadProgress && response.body) {
+      response = replaceResponseBody(
+        response,
+        trackStream(
+          response.body,
+          createProgressReporter(
+            config.onDownloadProgress,
+            getContentLength(response.headers),
+            finalSignal
+          )
+        )
       )
     }
 
-    // Create response config
-    const responseConfig: RAWResponseConfig = {
-      isResponseConfig: true,
-      requestConfig: config,
-      data: responseData,
-      ...response,
-    }
-
-    // Check for HTTP error status codes
-    if (!response.ok) {
-      const status = response.status
-      const isClientError = status >= 400 && status < 500
-      const errorCode = isClientError
-        ? HttpClientError.ERR_BAD_REQUEST
-        : HttpClientError.ERR_BAD_RESPONSE
-
-      throw new HttpClientError(
-        `Request failed with status ${status}`,
-        errorCode,
-        config,
-        responseConfig
-      )
-    }
+    // Parse response based on responseType
+    const responseData = await parseResponseData(
+      response,
+      config,
+      handleAbortError,
+      timings
+    )
 
-    return responseConfig
+    return settleResponse(response, config, responseData, timings)
   } finally {
     // Clean up timeout and event listeners after all operations complete
     // This ensures cleanup happens whether the request succeeds or fails
@@ -0,0 +1,673 @@
+import type { IncomingMessage, RequestOptions } from "node:http"
+import type { Socket } from "node:net"
+import type { Readable } from "node:stream"
+
+import HttpClientError from "../httpClientError.js"
+import {
+  HttpClientProxy,
+  RAWResponseConfig,
+  ResolvedRAWRequestConfig,
+} from "../types.js"
+
+import {
+  createProgressReporter,
+  getContentLength,
+  trackStream,
+} from "./progress.js"
+import {
+  AdapterTimings,
+  buildRequestHeaders,
+  buildRequestURL,
+  createResponse,
+  parseResponseData,
+  prepareRequestBody,
+  settleResponse,
+} from "./shared.js"
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308]
+const UPLOAD_CHUNK_SIZE = 64 * 1024
+const NULL_BODY_STATUSES = [101, 204, 205, 304]
+
+type NodeBody = Uint8Array | ReadableStream | undefined
+
+/**
+ * Load the Node.js modules lazily so that the adapter can be registered in
+ * runtimes without them.
+ */
+async function loadModules() {
+  const [http, https, tls, zlib, stream] = await Promise.all([
+    import("node:http"),
+    import("node:https"),
+    import("node:tls"),
+    import("node:zlib"),
+    import("node:stream"),
+  ])
+
+  return { http, https, tls, zlib, stream }
+}
+
+type NodeModules = Awaited<ReturnType<typeof loadModules>>
+
+/**
+ * Read an environment variable in upper or lower case.
+ *
+ * @param name - The upper-cased variable name.
+ * @returns The value, or undefined if not set.
+ */
+function readEnv(name: string): string | undefined {
+  return process.env[name] || process.env[name.toLowerCase()] || undefined
+}
+
+/**
+ * Check if the URL is excluded from proxying by the NO_PROXY variable.
+ *
+ * @param url - The request URL.
+ * @returns True if the request must not be proxied, false otherwise.
+ */
+function isNoProxy(url: URL): boolean {
+  const noProxy = readEnv("NO_PROXY")
+  if (!noProxy) {
+    return false
+  }
+
+  if (noProxy.trim() === "*") {
+    return true
+  }
+
+  const port = url.port || (url.protocol === "https:" ? "443" : "80")
+
+  return noProxy
+    .split(/[,\s]+/)
+    .filter(Boolean)
+    .some((entry) => {
+      const match = entry.match(/^(.+?)(?::(\d+))?$/)
+      if (!match || (match[2] && match[2] !== port)) {
+        return false
+      }
+
+      const host = match[1]!.replace(/^\*?\./, "").toLowerCase()
+      return url.hostname === host || url.hostname.endsWith(`.${host}`)
+    })
+}
+
+/**
+ * Resolve the proxy of a request from the config or the environment.
+ *
+ * @param config - The request config.
+ * @param url - The request URL.
+ * @returns The proxy, or undefined to connect directly.
+ */
+function resolveProxy<ForceSignal extends boolean>(
+  config: ResolvedRAWRequestConfig<ForceSignal>,
+  url: URL
+): HttpClientProxy | undefined {
+  if (config.proxy === false) {
+    return undefined
+  }
+
+  if (config.proxy) {
+    return config.proxy
+  }
+
+  const proxyUrl =
+    (url.protocol === "https:"
+      ? readEnv("HTTPS_PROXY")
+      : readEnv("HTTP_PROXY")) || readEnv("ALL_PROXY")
+
+  if (!proxyUrl || isNoProxy(url)) {
+    return undefined
+  }
+
+  let parsed: URL
+  try {
+    parsed = new URL(proxyUrl)
+  } catch {
+    throw new HttpClientError(
+      `Invalid proxy URL: ${proxyUrl}`,
+      HttpClientError.ERR_BAD_CONFIG_VALUE,
+      config
+    )
+  }
+
+  return {
+    protocol: parsed.protocol === "https:" ? "https:" : "http:",
+    host: parsed.hostname,
+    port: parsed.port ? Number(parsed.port) : undefined,
+    auth: parsed.username
+      ? {
+          username: decodeURIComponent(parsed.username),
+          password: decodeURIComponent(parsed.password),
+        }
+      : undefined,
+  }
+}
+
+/**
+ * Build the Proxy-Authorization header value of a proxy.
+ *
+ * @param proxy - The proxy.
+ * @returns The header value, or undefined without credentials.
+ */
+function getProxyAuthorization(proxy: HttpClientProxy): string | undefined {
+  if (!proxy.auth) {
+    return undefined
+  }
+
+  const credentials = `${proxy.auth.username}:${proxy.auth.password}`
+  return `Basic ${Buffer.from(credentials).toString("base64")}`
+}
+
+/**
+ * Convert a fetch body into a body that can be written to a Node.js request.
+ *
+ * @param body - The prepared request body.
+ * @param headers - The request headers, updated with the body Content-Type.
+ * @returns The Node.js body.
+ */
+async function toNodeBody(
+  body: RequestInit["body"] | undefined,
+  headers: Headers
+): Promise<NodeBody> {
+  if (body === undefined || body === null) {
+    return undefined
+  }
+
+  if (typeof body === "string") {
+    return Buffer.from(body)
+  }
+
+  if (body instanceof ArrayBuffer) {
+    return new Uint8Array(body)
+  }
+
+  if (ArrayBuffer.isView(body)) {
+    return new Uint8Array(body.buffer, body.byteOffset, body.byteLength)
+  }
+
+  if (body instanceof ReadableStream) {
+    return body
+  }
+
+  // Blob, FormData and URLSearchParams are encoded by the fetch Response
+  const encoded = new Response(body)
+  const contentType = encoded.headers.get("Content-Type")
+  if (contentType && !headers.has("Content-Type")) {
+    headers.set("Content-Type", contentType)
+  }
+
+  return new Uint8Array(await encoded.arrayBuffer())
+}
+
+/**
+ * Open a CONNECT tunnel through a proxy.
+ *
+ * @param modules - The Node.js modules.
+ * @param proxy - The proxy.
+ * @param url - The target URL.
+ * @param signal - The signal aborting the request.
+ * @returns The tunnel socket.
+ */
+function openTunnel(
+  modules: NodeModules,
+  proxy: HttpClientProxy,
+  url: URL,
+  signal: AbortSignal
+): Promise<Socket> {
+  const lib = proxy.protocol === "https:" ? modules.https : modules.http
+  const authority = `${url.hostname}:${url.port || 443}`
+  const proxyAuthorization = getProxyAuthorization(proxy)
+
+  return new Promise((resolve, reject) => {
+    const request = lib.request({
+      hostname: proxy.host,
+      port: proxy.port ?? (proxy.protocol === "https:" ? 443 : 80),
+      method: "CONNECT",
+      path: authority,
+      headers: {
+        host: authority,
+        ...(proxyAuthorization && {
+          "proxy-authorization": proxyAuthorization,
+        }),
+      },
+      signal,
+    })
+
+    request.once("connect", (response, socket) => {
+      if (response.statusCode === 200) {
+        resolve(socket)
+        return
+      }
+
+      socket.destroy()
+      reject(new Error(`Proxy responded with status ${response.statusCode}`))
+    })
+    request.once("error", reject)
+    request.end()
+  })
+}
+
+/**
+ * Split bytes into chunks.
+ *
+ * @param bytes - The bytes to split.
+ */
+function* chunks(bytes: Uint8Array): Generator<Uint8Array> {
+  for (let offset = 0; offset < bytes.byteLength; offset += UPLOAD_CHUNK_SIZE) {
+    yield bytes.subarray(offset, offset + UPLOAD_CHUNK_SIZE)
+  }
+}
+
+/**
+ * Send a single HTTP request, without following redirects.
+ *
+ * @param modules - The Node.js modules.
+ * @param config - The request config.
+ * @param url - The request URL.
+ * @param method - The request method.
+ * @param headers - The request headers.
+ * @param body - The request body.
+ * @param signal - The signal aborting the request.
+ * @param onUpload - Called with the size of every body chunk sent.
+ * @returns The incoming response.
+ */
+async function send<ForceSignal extends boolean>(
+  modules: NodeModules,
+  config: ResolvedRAWRequestConfig<ForceSignal>,
+  url: URL,
+  method: string,
+  headers: Headers,
+  body: NodeBody,
+  signal: AbortSignal,
+  onUpload?: (bytes: number) => void
+): Promise<IncomingMessage> {
+  const isHttps = url.protocol === "https:"
+  const proxy = resolveProxy(config, url)
+  const outgoingHeaders = Object.fromEntries(headers)
+
+  let lib = isHttps ? modules.https : modules.http
+  let options: RequestOptions = {
+    // IPv6 hosts are bracketed in URLs but not in request options
+    hostname: url.hostname.replace(/^\[|\]$/g, ""),
+    port: url.port || undefined,
+    path: `${url.pathname}${url.search}`,
+    method,
+    headers: outgoingHeaders,
+    agent: isHttps ? config.httpsAgent : config.httpAgent,
+    signal,
+  }
+
+  if (proxy && isHttps) {
+    // Tunnel TLS through the proxy, reusing the TLS options of the agent
+    const socket = await openTunnel(modules, proxy, url, signal)
+    options = {
+      ...options,
+      // Without an agent, the request opens its socket with createConnection
+      agent: undefined,
+      createConnection: () =>
+        modules.tls.connect({
+          ...config.httpsAgent?.options,
+          socket,
+          servername: url.hostname,
+        }),
+    }
+  } else if (proxy) {
+    // Send the absolute URL to the proxy
+    const proxyAuthorization = getProxyAuthorization(proxy)
+    lib = proxy.protocol === "https:" ? modules.https : modules.http
+    options = {
+      ...options,
+      hostname: proxy.host,
+      port: proxy.port ?? (proxy.protocol === "https:" ? 443 : 80),
+      path: url.href,
+      headers: {
+        ...outgoingHeaders,
+        host: url.host,
+        ...(proxyAuthorization && {
+          "proxy-authorization": proxyAuthorization,
+        }),
+      },
+      agent: undefined,
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = lib.request(options, resolve)
+    request.once("error", reject)
+
+    if (body === undefined || (body instanceof Uint8Array && !onUpload)) {
+      request.end(body)
+      return
+    }
+
+    // Stream the body, in chunks when its upload is observed
+    const readable =
+      body instanceof ReadableStream
+        ? modules.stream.Readable.fromWeb(
+            body as Parameters<typeof modules.stream.Readable.fromWeb>[0]
+          )
+        : modules.stream.Readable.from(chunks(body))
+
+    if (onUpload) {
+      readable.on("data", (chunk: Uint8Array) => onUpload(chunk.byteLength))
+    }
+    readable.once("error", (error) => request.destroy(error))
+    readable.pipe(request)
+  })
+}
+
+/**
+ * Decompress the response body according to its Content-Encoding.
+ *
+ * @param modules - The Node.js modules.
+ * @param response - The incoming response.
+ * @returns The decoded body stream.
+ */
+function decompress(modules: NodeModules, response: IncomingMessage): Readable {
+  const encoding = (response.headers["content-encoding"] || "").toLowerCase()
+
+  switch (encoding) {
+    case "gzip":
+    case "x-gzip":
+      return response.pipe(modules.zlib.createGunzip())
+    case "deflate":
+      return response.pipe(modules.zlib.createInflate())
+    case "br":
+      return response.pipe(modules.zlib.createBrotliDecompress())
+    default:
+      return response
+  }
+}
+
+/**
+ * Read the whole response body, enforcing maxContentLength.
+ *
+ * @param config - The request config.
+ * @param response - The incoming response.
+ * @param body - The decoded body stream.
+ * @param onChunk - Called with the size of every chunk received.
+ * @returns The response body.
+ */
+async function readBody<ForceSignal extends boolean>(
+  config: ResolvedRAWRequestConfig<ForceSignal>,
+  response: IncomingMessage,
+  body: Readable,
+  onChunk?: (bytes: number) => void
+): Promise<Uint8Array> {
+  const maxContentLength = config.maxContentLength ?? -1
+  const exceeded = () =>
+    new HttpClientError(
+      `maxContentLength size of ${maxContentLength} exceeded`,
+      HttpClientError.ERR_BAD_RESPONSE,
+      config
+    )
+
+  if (
+    maxContentLength > -1 &&
+    Number(response.headers["content-length"]) > maxContentLength
+  ) {
+    response.destroy()
+    throw exceeded()
+  }
+
+  const chunks: Buffer[] = []
+  let length = 0
+
+  for await (const chunk of body) {
+    length += chunk.length
+    if (maxContentLength > -1 && length > maxContentLength) {
+      response.destroy()
+      throw exceeded()
+    }
+    chunks.push(chunk)
+    onChunk?.(chunk.length)
+  }
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * The Node.js http/https adapter.
+ *
+ * Supports connection agents, HTTP(S)_PROXY and NO_PROXY handling, redirects
+ * and compressed responses, and produces the same response config and error
+ * codes as the fetch adapter.
+ *
+ * @template ForceSignal - Whether to force the signal to be true or false
+ * @param config - The request config.
+ * @returns The response config.
+ */
+export default async function adapter<ForceSignal extends boolean>(
+  config: ResolvedRAWRequestConfig<ForceSignal>
+): Promise<RAWResponseConfig> {
+  // Check if request is already canceled
+  if (config.signal && config.signal.aborted) {
+    throw new HttpClientError(
+      "Request canceled",
+      HttpClientError.ERR_CANCELED,
+      config
+    )
+  }
+
+  const timings: AdapterTimings = { start: performance.now() }
+  const modules = await loadModules()
+
+  let requestUrl = buildRequestURL(config)
+  const requestBody = prepareRequestBody(config)
+  const headers = buildRequestHeaders(config, requestBody)
+  let body = await toNodeBody(requestBody, headers)
+  let method = (config.method || "GET").toUpperCase()
+
+  // The signal may have aborted while the modules and body were loading
+  if (config.signal && config.signal.aborted) {
+    throw new HttpClientError(
+      "Request canceled",
+      HttpClientError.ERR_CANCELED,
+      config
+    )
+  }
+
+  if (!headers.has("Accept-Encoding")) {
+    headers.set("Accept-Encoding", "gzip, deflate, br")
+  }
+  if (body instanceof Uint8Array && !headers.has("Content-Length")) {
+    headers.set("Content-Length", String(body.byteLength))
+  }
+
+  // Abort the request on timeout or user cancellation
+  const controller = new AbortController()
+  const timeout = config.timeout ?? 30000
+  let isTimeoutAborted = false
+
+  const timeoutId =
+    timeout > 0
+      ? setTimeout(() => {
+          isTimeoutAborted = true
+          controller.abort()
+        }, timeout)
+      : undefined
+
+  const userAbortHandler = () => controller.abort()
+  if (config.signal) {
+    config.signal.addEventListener("abort", userAbortHandler)
+  }
+
+  // Helper function to handle AbortError consistently
+  const handleAbortError = (): never => {
+    if (isTimeoutAborted) {
+      throw new HttpClientError(
+        "Request timed out",
+        HttpClientError.ERR_TIMEDOUT,
+        config
+      )
+    }
+
+    throw new HttpClientError(
+      "Request canceled",
+      HttpClientError.ERR_CANCELED,
+      config
+    )
+  }
+
+  // Map errors of the underlying request to HttpClientErrors
+  const handleError = (error: unknown): never => {
+    if (error instanceof HttpClientError) {
+      throw error
+    }
+
+    if (controller.signal.aborted) {
+      handleAbortError()
+    }
+
+    throw new HttpClientError(
+      `Network error: ${error instanceof Error ? error.message : String(error)}`,
+      HttpClientError.ERR_NETWORK,
+      config
+    )
+  }
+
+  try {
+    const maxRedirects = config.maxRedirects ?? 20
+    let incoming: IncomingMessage
+    let redirected = false
+
+    for (let redirects = 0; ; redirects++) {
+      incoming = await send(
+        modules,
+        config,
+        requestUrl,
+        method,
+        headers,
+        body,
+        controller.signal,
+        config.onUploadProgress &&
+          createProgressReporter(
+            config.onUploadProgress,
+            body instanceof Uint8Array ? body.byteLength : undefined,
+            controller.signal
+          )
+      ).catch(handleError)
+
+      const status = incoming.statusCode ?? 0
+      const location = incoming.headers.location
+      if (
+        !REDIRECT_STATUSES.includes(status) ||
+        !location ||
+        config.redirect === "manual"
+      ) {
+        break
+      }
+
+      // Discard the body of the redirect response
+      incoming.resume()
+
+      if (config.redirect === "error") {
+        throw new HttpClientError(
+          "Network error: unexpected redirect",
+          HttpClientError.ERR_NETWORK,
+          config
+        )
+      }
+
+      if (redirects >= maxRedirects) {
+        throw new HttpClientError(
+          "Maximum number of redirects exceeded",
+          HttpClientError.ERR_BAD_RESPONSE,
+          config
+        )
+      }
+
+      const nextUrl = new URL(location, requestUrl)
+
+      if (
+        status === 303 ||
+        ((status === 301 || status === 302) && method === "POST")
+      ) {
+        // Follow with a GET request without body
+        method = method === "HEAD" ? "HEAD" : "GET"
+        body = undefined
+        headers.delete("Content-Type")
+        headers.delete("Content-Length")
+      } else if (body instanceof ReadableStream) {
+        throw new HttpClientError(
+          "Cannot follow a redirect with a streamed request body",
+          HttpClientError.ERR_BAD_REQUEST,
+          config
+        )
+      }
+
+      // Do not leak credentials to other origins
+      if (nextUrl.origin !== requestUrl.origin) {
+        headers.delete("Authorization")
+        headers.delete("Cookie")
+      }
+
+      requestUrl = nextUrl
+      redirected = true
+    }
+
+    timings.headers = performance.now()
+
+    const status = incoming.statusCode ?? 0
+    const responseHeaders = new Headers()
+    for (let i = 0; i < incoming.rawHeaders.length; i += 2) {
+      responseHeaders.append(
+        incoming.rawHeaders[i]!,
+        incoming.rawHeaders[i + 1]!
+      )
+    }
+
+    const onDownload =
+      config.onDownloadProgress &&
+      createProgressReporter(
+        config.onDownloadProgress,
+        getContentLength(responseHeaders),
+        controller.signal
+      )
+
+    let responseBody: ReadableStream | Uint8Array | null = null
+    if (!NULL_BODY_STATUSES.includes(status) && method !== "HEAD") {
+      const decoded = decompress(modules, incoming)
+
+      if (
+        config.responseType === "stream" ||
+        config.responseType === "ndjson"
+      ) {
+        const stream = modules.stream.Readable.toWeb(decoded) as ReadableStream
+        responseBody = onDownload ? trackStream(stream, onDownload) : stream
+      } else {
+        responseBody = await readBody(
+          config,
+          incoming,
+          decoded,
+          onDownload
+        ).catch(handleError)
+      }
+    }
+
+    const response = createResponse(responseBody as BodyInit | null, {
+      status,
+      statusText: incoming.statusMessage,
+      headers: responseHeaders,
+      url: requestUrl.href,
+      redirected,
+    })
+
+    // Parse response based on responseType
+    const responseData = await parseResponseData(
+      response,
+      config,
+      handleAbortError,
+      timings
+    )
+
+    return settleResponse(response, config, responseData, timings)
+  } finally {
+    // Clean up timeout and event listeners
+    if (timeoutId) {
+      clearTimeout(timeoutId)
+    }
+    if (config.signal) {
+      config.signal.removeEventListener("abort", userAbortHandler)
+    }
+  }
+}
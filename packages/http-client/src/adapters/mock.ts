@@ -0,0 +1,365 @@
+import HttpClientError from "../httpClientError.js"
+import {
+  HttpClientMethod,
+  RAWResponseConfig,
+  ResolvedRAWRequestConfig,
+} from "../types.js"
+
+import fetchAdapter from "./fetch.js"
+
+/**
+ * The response returned by a mock route. Its status, statusText, headers and
+ * data become the fields of the RAWResponseConfig of the request, so a
+ * RAWResponseConfig can be returned as is.
+ */
+export type MockResponse = {
+  // Response status, defaults to 200
+  status?: number
+
+  // Response status text, defaults to ''
+  statusText?: string
+
+  // Response headers, defaults to undefined
+  headers?: HeadersInit
+
+  // Response body, serialized as JSON unless it is a string, Blob or buffer
+  data?: unknown
+
+  // Delay before replying in milliseconds, defaults to 0
+  delay?: number
+
+  // Simulated failure after the delay: 'network' rejects like an unreachable
+  // host, 'timeout' rejects with ERR_TIMEDOUT
+  error?: "network" | "timeout"
+}
+
+/**
+ * The reply of a mock route, either static or computed from the request.
+ */
+export type MockReply =
+  | MockResponse
+  | RAWResponseConfig
+  | ((
+      config: ResolvedRAWRequestConfig<boolean>
+    ) =>
+      | MockResponse
+      | RAWResponseConfig
+      | Promise<MockResponse | RAWResponseConfig>)
+
+/**
+ * The matcher of a mock route.
+ */
+export type MockMatcher = {
+  // HTTP method to match, defaults to any method
+  method?: HttpClientMethod
+
+  // URL to match: a string matches the full URL or its pathname,
+  // a RegExp is tested against the full URL, defaults to any URL
+  url?: string | RegExp | ((url: URL) => boolean)
+
+  // Search params that must be present with the given values, defaults to undefined
+  searchParams?: Record<string, string>
+
+  // Number of times the route may reply before it is removed, defaults to unlimited
+  times?: number
+}
+
+type MockRoute = {
+  matcher: MockMatcher
+  reply: MockReply
+  remaining: number
+}
+
+/**
+ * Wait for the given delay, rejecting with an AbortError when the signal aborts.
+ *
+ * @param ms - The delay in milliseconds.
+ * @param signal - The signal to listen to.
+ */
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      const error = new Error("The operation was aborted")
+      error.name = "AbortError"
+      reject(error)
+    }
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+
+    if (signal) {
+      if (signal.aborted) {
+        onAbort()
+        return
+      }
+      signal.addEventListener("abort", onAbort, { once: true })
+    }
+  })
+}
+
+/**
+ * Check if a route matcher matches the request.
+ *
+ * @param matcher - The route matcher.
+ * @param method - The upper-cased request method.
+ * @param url - The resolved request URL.
+ * @returns True if the route matches, false otherwise.
+ */
+function matches(matcher: MockMatcher, method: string, url: URL): boolean {
+  if (matcher.method && matcher.method.toUpperCase() !== method) {
+    return false
+  }
+
+  if (typeof matcher.url === "string") {
+    const href = `${url.origin}${url.pathname}`
+    if (matcher.url !== href && matcher.url !== url.pathname) {
+      return false
+    }
+  } else if (matcher.url instanceof RegExp) {
+    if (!matcher.url.test(url.href)) {
+      return false
+    }
+  } else if (typeof matcher.url === "function") {
+    if (!matcher.url(url)) {
+      return false
+    }
+  }
+
+  if (matcher.searchParams) {
+    for (const [key, value] of Object.entries(matcher.searchParams)) {
+      if (!url.searchParams.getAll(key).includes(value)) {
+        return false
+      }
+    }
+  }
+
+  return true
+}
+
+/**
+ * Build a fetch Response from a mock response.
+ *
+ * @param mockResponse - The mock response.
+ * @param url - The request URL, reported as the response URL.
+ * @returns The fetch Response.
+ */
+function toResponse(mockResponse: MockResponse, url: URL): Response {
+  const status = mockResponse.status ?? 200
+  const headers = new Headers(mockResponse.headers)
+  const { data } = mockResponse
+
+  let body: BodyInit | null = null
+  if (status !== 204 && status !== 304 && data !== undefined && data !== null) {
+    if (
+      typeof data === "string" ||
+      data instanceof Blob ||
+      data instanceof ArrayBuffer ||
+      data instanceof FormData ||
+      data instanceof ReadableStream
+    ) {
+      body = data
+    } else if (ArrayBuffer.isView(data)) {
+      body = data as BodyInit
+    } else {
+      body = JSON.stringify(data)
+      if (!headers.has("Content-Type")) {
+        headers.set("Content-Type", "application/json")
+      }
+    }
+  }
+
+  const response = new Response(body, {
+    status,
+    statusText: mockResponse.statusText,
+    headers,
+  })
+  Object.defineProperty(response, "url", { value: url.href })
+
+  return response
+}
+
+/**
+ * The MockAdapter class replies to requests from in-memory routes.
+ *
+ * Requests go through the fetch adapter with a fake fetch, so URL building,
+ * body serialization, timeouts, cancellation and response parsing behave
+ * exactly as with a real network.
+ *
+ * @example
+ * ```typescript
+ * const mock = new MockAdapter()
+ * mock.onGet("/users", { data: [{ id: 1 }] })
+ * mock.on({ method: "POST", url: /\/login$/, times: 1 }, { status: 401 })
+ *
+ * const httpClient = new HttpClient({
+ *   baseURL: "https://api.example.com",
+ *   adapter: mock.adapter,
+ * })
+ *
+ * await httpClient.get("/users", { signal: false })
+ * console.log(mock.history[0]?.url)
+ * ```
+ */
+export default class MockAdapter {
+  // Every request config received by the adapter, in order
+  readonly history: ResolvedRAWRequestConfig<boolean>[] = []
+
+  private routes: MockRoute[] = []
+
+  /**
+   * Add a route.
+   *
+   * @param matcher - The matcher of the route
+   * @param reply - The reply of the route
+   * @returns The MockAdapter instance
+   */
+  on(matcher: MockMatcher, reply: MockReply): this {
+    this.routes.push({ matcher, reply, remaining: matcher.times ?? Infinity })
+    return this
+  }
+
+  /**
+   * Add a GET route.
+   *
+   * @param url - The URL to match
+   * @param reply - The reply of the route
+   * @returns The MockAdapter instance
+   */
+  onGet(url: MockMatcher["url"], reply: MockReply): this {
+    return this.on({ method: "GET", url }, reply)
+  }
+
+  /**
+   * Add a POST route.
+   *
+   * @param url - The URL to match
+   * @param reply - The reply of the route
+   * @returns The MockAdapter instance
+   */
+  onPost(url: MockMatcher["url"], reply: MockReply): this {
+    return this.on({ method: "POST", url }, reply)
+  }
+
+  /**
+   * Add a PUT route.
+   *
+   * @param url - The URL to match
+   * @param reply - The reply of the route
+   * @returns The MockAdapter instance
+   */
+  onPut(url: MockMatcher["url"], reply: MockReply): this {
+    return this.on({ method: "PUT", url }, reply)
+  }
+
+  /**
+   * Add a PATCH route.
+   *
+   * @param url - The URL to match
+   * @param reply - The reply of the route
+   * @returns The MockAdapter instance
+   */
+  onPatch(url: MockMatcher["url"], reply: MockReply): this {
+    return this.on({ method: "PATCH", url }, reply)
+  }
+
+  /**
+   * Add a DELETE route.
+   *
+   * @param url - The URL to match
+   * @param reply - The reply of the route
+   * @returns The MockAdapter instance
+   */
+  onDelete(url: MockMatcher["url"], reply: MockReply): this {
+    return this.on({ method: "DELETE", url }, reply)
+  }
+
+  /**
+   * Remove all routes and clear the history.
+   */
+  reset(): void {
+    this.routes = []
+    this.history.length = 0
+  }
+
+  /**
+   * Clear the history.
+   */
+  resetHistory(): void {
+    this.history.length = 0
+  }
+
+  /**
+   * The adapter function to pass as the `adapter` option.
+   *
+   * @param config - The request config.
+   * @returns The response config.
+   */
+  adapter = <ForceSignal extends boolean>(
+    config: ResolvedRAWRequestConfig<ForceSignal>
+  ): Promise<RAWResponseConfig> => {
+    this.history.push(config)
+
+    return fetchAdapter(config, (input, init) =>
+      this.respond(config, new URL(String(input)), init)
+    )
+  }
+
+  /**
+   * Find the matching route and build its response.
+   *
+   * @param config - The request config.
+   * @param url - The resolved request URL.
+   * @param init - The fetch options built by the fetch adapter.
+   * @returns The fetch Response.
+   */
+  private async respond(
+    config: ResolvedRAWRequestConfig<boolean>,
+    url: URL,
+    init?: RequestInit
+  ): Promise<Response> {
+    const method = (init?.method || "GET").toUpperCase()
+    const route = this.routes.find((r) => matches(r.matcher, method, url))
+
+    if (!route) {
+      return toResponse(
+        {
+          status: 404,
+          statusText: "Not Found",
+          data: { message: `No mock route for ${method} ${url.href}` },
+        },
+        url
+      )
+    }
+
+    route.remaining -= 1
+    if (route.remaining <= 0) {
+      this.routes.splice(this.routes.indexOf(route), 1)
+    }
+
+    const mockResponse: MockResponse =
+      typeof route.reply === "function"
+        ? await route.reply(config)
+        : route.reply
+
+    if (mockResponse.delay) {
+      await wait(mockResponse.delay, init?.signal)
+    }
+
+    if (mockResponse.error === "network") {
+      throw new TypeError("Mock network error")
+    }
+
+    if (mockResponse.error === "timeout") {
+      throw new HttpClientError(
+        "Request timed out",
+        HttpClientError.ERR_TIMEDOUT,
+        config
+      )
+    }
+
+    return toResponse(mockResponse, url)
+  }
+}
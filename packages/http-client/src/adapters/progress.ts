@@ -0,0 +1,164 @@
+import { HttpClientProgressEvent } from "../types.js"
+
+// Time window used to measure the transfer rate in milliseconds
+const RATE_WINDOW = 3000
+
+// Size of the chunks an in-memory upload body is split into
+const CHUNK_SIZE = 64 * 1024
+
+/**
+ * Create a function reporting transferred bytes as progress events.
+ *
+ * No event is reported once the signal is aborted, so that progress stops
+ * cleanly on cancellation and timeout.
+ *
+ * @param listener - The progress listener.
+ * @param total - The total bytes to transfer, undefined when unknown.
+ * @param signal - The signal aborting the transfer.
+ * @returns The function to call with the bytes of every chunk.
+ */
+export function createProgressReporter(
+  listener: (event: HttpClientProgressEvent) => void,
+  total: number | undefined,
+  signal?: AbortSignal
+): (bytes: number) => void {
+  const samples: { time: number; loaded: number }[] = [
+    { time: Date.now(), loaded: 0 },
+  ]
+  let loaded = 0
+
+  return (bytes) => {
+    if (signal?.aborted) {
+      return
+    }
+
+    loaded += bytes
+
+    const now = Date.now()
+    samples.push({ time: now, loaded })
+    while (samples.length > 2 && now - samples[0]!.time > RATE_WINDOW) {
+      samples.shift()
+    }
+
+    const first = samples[0]!
+    const elapsed = (now - first.time) / 1000
+    const rate = elapsed > 0 ? (loaded - first.loaded) / elapsed : undefined
+
+    listener({
+      loaded,
+      total,
+      bytes,
+      progress: total ? Math.min(1, loaded / total) : undefined,
+      rate,
+      estimated:
+        total && rate ? Math.max(0, (total - loaded) / rate) : undefined,
+    })
+  }
+}
+
+/**
+ * Get the total size of a response body from its headers.
+ *
+ * @param headers - The response headers.
+ * @returns The total bytes, undefined when unknown or compressed.
+ */
+export function getContentLength(headers: Headers): number | undefined {
+  const encoding = headers.get("Content-Encoding")
+  if (encoding && encoding !== "identity") {
+    // Content-Length is the compressed size, while the body is decoded
+    return undefined
+  }
+
+  const length = Number(headers.get("Content-Length"))
+  return Number.isFinite(length) && length > 0 ? length : undefined
+}
+
+/**
+ * Report the chunks flowing through a stream.
+ *
+ * @param stream - The stream to observe.
+ * @param onChunk - Called with the size of every chunk.
+ * @returns The observed stream.
+ */
+export function trackStream(
+  stream: ReadableStream<Uint8Array>,
+  onChunk: (bytes: number) => void
+): ReadableStream<Uint8Array> {
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        onChunk(chunk.byteLength)
+        controller.enqueue(chunk)
+      },
+    })
+  )
+}
+
+/**
+ * Split bytes into a stream of chunks.
+ *
+ * @param bytes - The bytes to split.
+ * @returns The stream of chunks.
+ */
+function chunkStream(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  let offset = 0
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.byteLength) {
+        controller.close()
+        return
+      }
+
+      controller.enqueue(bytes.subarray(offset, offset + CHUNK_SIZE))
+      offset += CHUNK_SIZE
+    },
+  })
+}
+
+/**
+ * Convert a request body into a stream so that its upload can be observed.
+ *
+ * @param body - The prepared request body.
+ * @param headers - The request headers, updated with the body Content-Type.
+ * @returns The body stream and its total size, undefined when unknown.
+ */
+export async function toUploadStream(
+  body: BodyInit,
+  headers: Headers
+): Promise<{ stream: ReadableStream<Uint8Array>; total?: number }> {
+  if (body instanceof ReadableStream) {
+    return { stream: body }
+  }
+
+  if (typeof body === "string") {
+    const bytes = new TextEncoder().encode(body)
+    return { stream: chunkStream(bytes), total: bytes.byteLength }
+  }
+
+  if (body instanceof ArrayBuffer) {
+    return { stream: chunkStream(new Uint8Array(body)), total: body.byteLength }
+  }
+
+  if (ArrayBuffer.isView(body)) {
+    const bytes = new Uint8Array(body.buffer, body.byteOffset, body.byteLength)
+    return { stream: chunkStream(bytes), total: bytes.byteLength }
+  }
+
+  if (body instanceof Blob) {
+    if (body.type && !headers.has("Content-Type")) {
+      headers.set("Content-Type", body.type)
+    }
+    return { stream: body.stream(), total: body.size }
+  }
+
+  // FormData and URLSearchParams are encoded by the fetch Response
+  const encoded = new Response(body)
+  const contentType = encoded.headers.get("Content-Type")
+  if (contentType && !headers.has("Content-Type")) {
+    headers.set("Content-Type", contentType)
+  }
+
+  const bytes = new Uint8Array(await encoded.arrayBuffer())
+  return { stream: chunkStream(bytes), total: bytes.byteLength }
+}
@@ -0,0 +1,148 @@
+import HttpClientError from "../httpClientError.js"
+import {
+  HttpClientAdapter,
+  HttpClientAdapterCapabilities,
+  HttpClientAdapterDefinition,
+  HttpClientAdapterName,
+  ResolvedRAWRequestConfig,
+} from "../types.js"
+
+import fetchAdapter, { supportsRequestStreams } from "./fetch.js"
+import httpAdapter from "./http.js"
+
+/**
+ * The registered adapters, keyed by name.
+ */
+export const adapters = new Map<string, HttpClientAdapterDefinition>([
+  [
+    "fetch",
+    {
+      adapter: fetchAdapter,
+      isAvailable: () => typeof globalThis.fetch === "function",
+      capabilities: {
+        get streamingUpload() {
+          return supportsRequestStreams()
+        },
+        progress: true,
+      },
+    },
+  ],
+  [
+    "http",
+    {
+      adapter: httpAdapter,
+      isAvailable: () =>
+        typeof process !== "undefined" && !!process.versions?.node,
+      capabilities: { streamingUpload: true, progress: true },
+    },
+  ],
+])
+
+const CAPABILITY_LABELS: Record<keyof HttpClientAdapterCapabilities, string> = {
+  streamingUpload: "streaming upload",
+  progress: "progress events",
+  http2: "HTTP/2",
+}
+
+/**
+ * Register an adapter under the given name, replacing any existing one.
+ *
+ * @param name - The adapter name.
+ * @param definition - The adapter definition or adapter function.
+ */
+export function registerAdapter(
+  name: HttpClientAdapterName,
+  definition: HttpClientAdapterDefinition | HttpClientAdapter<boolean>
+): void {
+  adapters.set(
+    name,
+    typeof definition === "function" ? { adapter: definition } : definition
+  )
+}
+
+/**
+ * Get the capabilities a request config needs from its adapter.
+ *
+ * @param config - The request config.
+ * @returns The required capabilities.
+ */
+function getRequiredCapabilities<ForceSignal extends boolean>(
+  config: ResolvedRAWRequestConfig<ForceSignal>
+): (keyof HttpClientAdapterCapabilities)[] {
+  const required: (keyof HttpClientAdapterCapabilities)[] = []
+
+  // Upload progress is observed by streaming the request body
+  if (config.data instanceof ReadableStream || config.onUploadProgress) {
+    required.push("streamingUpload")
+  }
+
+  if (config.onUploadProgress || config.onDownloadProgress) {
+    required.push("progress")
+  }
+
+  return required
+}
+
+/**
+ * Resolve the adapter of a request config.
+ *
+ * Adapter functions are used as is. Adapter names are looked up in the
+ * registry, and for a fallback list the first adapter available in the
+ * current runtime is picked. Registered adapters must support every
+ * capability the config requires.
+ *
+ * @param config - The request config.
+ * @returns The adapter function.
+ */
+export function resolveAdapter<ForceSignal extends boolean>(
+  config: ResolvedRAWRequestConfig<ForceSignal>
+): HttpClientAdapter<ForceSignal> {
+  const candidates = Array.isArray(config.adapter)
+    ? config.adapter
+    : [config.adapter || "fetch"]
+
+  for (const candidate of candidates) {
+    if (typeof candidate === "function") {
+      return candidate as HttpClientAdapter<ForceSignal>
+    }
+
+    if (typeof candidate !== "string") {
+      throw new HttpClientError(
+        "Invalid adapter function",
+        HttpClientError.ERR_BAD_CONFIG_VALUE,
+        config
+      )
+    }
+
+    const definition = adapters.get(candidate)
+    if (!definition) {
+      throw new HttpClientError(
+        `Invalid adapter name: ${candidate}`,
+        HttpClientError.ERR_BAD_CONFIG_VALUE,
+        config
+      )
+    }
+
+    if (definition.isAvailable && !definition.isAvailable()) {
+      continue
+    }
+
+    for (const capability of getRequiredCapabilities(config)) {
+      if (!definition.capabilities?.[capability]) {
+        throw new HttpClientError(
+          `Adapter "${candidate}" does not support ${CAPABILITY_LABELS[capability]}`,
+          HttpClientError.ERR_BAD_CONFIG_VALUE,
+          config
+        )
+      }
+    }
+
+    return definition.adapter as HttpClientAdapter<ForceSignal>
+  }
+
+  throw new HttpClientError(
+    `No available adapter in: ${candidates.map(String).join(", ")}`,
+    HttpClientError.ERR_BAD_CONFIG_VALUE,
+    config
+  )
+}
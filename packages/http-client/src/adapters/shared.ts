@@ -0,0 +1,515 @@
+import HttpClientError from "../httpClientError.js"
+import readNDJSON from "../ndjson.js"
+import {
+  decodeRawBody,
+  getParser,
+  parseDocumentText,
+  parseJSONText,
+} from "../parsers.js"
+import {
+  containsBlob,
+  getSerializer,
+  serializeJSON,
+  serializeMultipart,
+} from "../serializers.js"
+import {
+  HttpClientTimings,
+  RAWResponseConfig,
+  ResolvedRAWRequestConfig,
+  ResponseType,
+  SearchParams,
+} from "../types.js"
+import { isHttpClientError } from "../utils.js"
+
+// Timings measured by the adapters
+export type AdapterTimings = Pick<HttpClientTimings, "start" | "headers">
+
+/**
+ * Build the request URL from the base URL, URL and search params.
+ *
+ * @param config - The request config.
+ * @returns The request URL.
+ */
+export function buildRequestURL<ForceSignal extends boolean>(
+  config: ResolvedRAWRequestConfig<ForceSignal>
+): URL {
+  let requestUrl: URL
+  try {
+    if (config.url instanceof URL) {
+      requestUrl = new URL(config.url.href)
+    } else if (config.baseURL instanceof URL) {
+      requestUrl = new URL(config.url || "", config.baseURL)
+    } else if (config.baseURL) {
+      requestUrl = new URL(config.url || "", config.baseURL)
+    } else if (config.url) {
+      requestUrl = new URL(config.url)
+    } else {
+      throw new HttpClientError(
+        "URL is required",
+        HttpClientError.ERR_BAD_CONFIG_VALUE,
+        config
+      )
+    }
+  } catch (error) {
+    if (isHttpClientError(error)) {
+      throw error
+    }
+
+    throw new HttpClientError(
+      `Invalid URL: ${error instanceof Error ? error.message : String(error)}`,
+      HttpClientError.ERR_INVALID_URL,
+      config
+    )
+  }
+
+  // Add search params
+  if (config.searchParams) {
+    appendSearchParams(requestUrl.searchParams, config.searchParams)
+  }
+
+  return requestUrl
+}
+
+/**
+ * Append search params to URLSearchParams, skipping null and undefined values.
+ *
+ * @param target - The URLSearchParams to append to.
+ * @param searchParams - The search params to append.
+ */
+export function appendSearchParams(
+  target: URLSearchParams,
+  searchParams: SearchParams
+): void {
+  if (searchParams instanceof URLSearchParams) {
+    searchParams.forEach((value, key) => {
+      target.append(key, value)
+    })
+    return
+  }
+
+  // Record<string, unknown | readonly unknown[]>
+  for (const [key, value] of Object.entries(searchParams)) {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        target.append(key, String(item))
+      }
+    } else if (value !== null && value !== undefined) {
+      target.append(key, String(value))
+    }
+  }
+}
+
+/**
+ * Prepare the request body from the request data.
+ *
+ * Body types are sent as is, other data goes through the serialize option or
+ * the serializer of the Content-Type header, defaulting to multipart for
+ * data containing files and to JSON otherwise.
+ *
+ * @param config - The request config.
+ * @returns The request body, or undefined if there is no data.
+ */
+export function prepareRequestBody<ForceSignal extends boolean>(
+  config: ResolvedRAWRequestConfig<ForceSignal>
+): RequestInit["body"] | undefined {
+  if (config.data === undefined || config.data === null) {
+    return undefined
+  }
+
+  // If data is already a valid RequestInit body type, use it directly
+  if (
+    !config.serialize &&
+    (typeof config.data === "string" ||
+      config.data instanceof FormData ||
+      config.data instanceof URLSearchParams ||
+      config.data instanceof Blob ||
+      config.data instanceof ArrayBuffer ||
+      config.data instanceof ReadableStream)
+  ) {
+    return config.data as RequestInit["body"]
+  }
+
+  if (!config.serialize && ArrayBuffer.isView(config.data)) {
+    // ArrayBufferView needs to be cast to BodyInit
+    return config.data as BodyInit
+  }
+
+  // Otherwise, serialize with the serializer of the request
+  const serialize =
+    config.serialize ||
+    getSerializer(new Headers(config.headers).get("Content-Type")) ||
+    (containsBlob(config.data) ? serializeMultipart : serializeJSON)
+
+  try {
+    return serialize(config.data, config)
+  } catch (error) {
+    throw new HttpClientError(
+      `Failed to serialize request data: ${error instanceof Error ? error.message : String(error)}`,
+      HttpClientError.ERR_BAD_REQUEST,
+      config
+    )
+  }
+}
+
+/**
+ * Build the request headers, adding a JSON Content-Type for string bodies.
+ *
+ * @param config - The request config.
+ * @param requestBody - The prepared request body.
+ * @returns The request headers.
+ */
+export function buildRequestHeaders<ForceSignal extends boolean>(
+  config: ResolvedRAWRequestConfig<ForceSignal>,
+  requestBody: RequestInit["body"] | undefined
+): Headers {
+  const headers = new Headers(config.headers)
+
+  if (
+    requestBody &&
+    typeof requestBody === "string" &&
+    !headers.has("Content-Type")
+  ) {
+    headers.set("Content-Type", "application/json")
+  }
+
+  // Multipart bodies set their own Content-Type with the boundary
+  if (
+    requestBody instanceof FormData &&
+    !headers.get("Content-Type")?.includes("boundary=")
+  ) {
+    headers.delete("Content-Type")
+  }
+
+  return headers
+}
+
+/**
+ * Build a fetch Response, keeping statuses outside of the 200 to 599 range
+ * that the Response constructor rejects.
+ *
+ * @param body - The response body.
+ * @param init - The status, headers and URL of the response.
+ * @returns The fetch Response.
+ */
+export function createResponse(
+  body: BodyInit | null,
+  init: {
+    status: number
+    statusText?: string
+    headers: Headers
+    url: string
+    redirected?: boolean
+  }
+): Response {
+  const { status } = init
+  const inRange = status >= 200 && status <= 599
+
+  const response = new Response(body, {
+    status: inRange ? status : 200,
+    statusText: init.statusText,
+    headers: init.headers,
+  })
+
+  Object.defineProperties(response, {
+    url: { value: init.url },
+    redirected: { value: init.redirected ?? false },
+    ...(!inRange && { status: { value: status }, ok: { value: false } }),
+  })
+
+  return response
+}
+
+/**
+ * Replace the body of a response, keeping its status, headers and URL.
+ *
+ * @param response - The response.
+ * @param body - The new body.
+ * @returns The response with the new body.
+ */
+export function replaceResponseBody(
+  response: Response,
+  body: ReadableStream<Uint8Array>
+): Response {
+  return createResponse(body, response)
+}
+
+/**
+ * Find the resource timing entry of a request, on platforms exposing it.
+ *
+ * @param url - The request URL.
+ * @param start - The start of the request, from performance.now().
+ * @returns The latest entry of the URL started with the request, if any.
+ */
+function findResourceTiming(
+  url: string,
+  start: number
+): PerformanceResourceTiming | undefined {
+  if (!url || typeof performance.getEntriesByName !== "function") {
+    return undefined
+  }
+
+  const entries = performance.getEntriesByName(url, "resource")
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i] as PerformanceResourceTiming
+    // Allow for the rounding of the entry timestamps
+    if (entry.startTime >= start - 1) {
+      return entry
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Add phases to timings, keeping the lazy resource getter.
+ *
+ * @param timings - The timings, left untouched.
+ * @param phases - The phases to add.
+ * @returns The extended timings.
+ */
+export function extendTimings(
+  timings: HttpClientTimings,
+  phases: Partial<HttpClientTimings>
+): HttpClientTimings {
+  const extended = Object.defineProperties(
+    {},
+    Object.getOwnPropertyDescriptors(timings)
+  ) as HttpClientTimings
+
+  return Object.assign(extended, phases)
+}
+
+/**
+ * Create the response config of a response.
+ *
+ * @param response - The response.
+ * @param config - The request config.
+ * @param data - The parsed response data.
+ * @param timings - The adapter timings, from performance.now().
+ * @returns The response config.
+ */
+export function createResponseConfig<ForceSignal extends boolean>(
+  response: Response,
+  config: ResolvedRAWRequestConfig<ForceSignal>,
+  data?: unknown,
+  timings: AdapterTimings = { start: performance.now() }
+): RAWResponseConfig {
+  const end = performance.now()
+  const { start, headers } = timings
+  let resource: PerformanceResourceTiming | undefined
+
+  return {
+    isResponseConfig: true,
+    status: response.status,
+    statusText: response.statusText,
+    ok: response.ok,
+    headers: response.headers,
+    url: response.url,
+    redirected: response.redirected,
+    data,
+    timings: {
+      start,
+      headers,
+      end,
+      duration: end - start,
+      // Platforms record the entry once the response is consumed, so it is
+      // looked up on access
+      get resource() {
+        resource ??= findResourceTiming(response.url, start)
+        return resource
+      },
+    },
+    requestConfig: config,
+    raw: response,
+  }
+}
+
+/**
+ * Parse a JSON response body.
+ *
+ * @param response - The response.
+ * @param config - The request config.
+ * @param timings - The adapter timings, from performance.now().
+ * @returns The parsed data, or null for an empty body.
+ */
+async function parseJSON<ForceSignal extends boolean>(
+  response: Response,
+  config: ResolvedRAWRequestConfig<ForceSignal>,
+  timings?: AdapterTimings
+): Promise<unknown> {
+  const text = await response.text()
+
+  try {
+    return parseJSONText(text, config)
+  } catch (parseError) {
+    // Keep the raw body as the response data
+    throw new HttpClientError(
+      `Failed to parse JSON response: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
+      HttpClientError.ERR_BAD_RESPONSE,
+      config,
+      createResponseConfig(response, config, text, timings)
+    )
+  }
+}
+
+/**
+ * Parse a response body with the parser of its Content-Type.
+ *
+ * @param response - The response.
+ * @param config - The request config.
+ * @param timings - The adapter timings, from performance.now().
+ * @returns The parsed data, or null for an empty body.
+ */
+async function parseAuto<ForceSignal extends boolean>(
+  response: Response,
+  config: ResolvedRAWRequestConfig<ForceSignal>,
+  timings?: AdapterTimings
+): Promise<unknown> {
+  const body = await response.arrayBuffer()
+  if (body.byteLength === 0) {
+    return null
+  }
+
+  // The parser reads a copy, so that the raw body is kept if it fails
+  const contentType = response.headers.get("Content-Type")
+  const copy = createResponse(body, response)
+
+  try {
+    return await getParser(contentType)(copy, config)
+  } catch (parseError) {
+    // Keep the raw body as the response data
+    throw new HttpClientError(
+      `Failed to parse response: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
+      HttpClientError.ERR_BAD_RESPONSE,
+      config,
+      createResponseConfig(
+        response,
+        config,
+        decodeRawBody(body, contentType),
+        timings
+      )
+    )
+  }
+}
+
+/**
+ * Parse the response body based on the responseType of the config.
+ *
+ * @param response - The response.
+ * @param config - The request config.
+ * @param handleAbortError - Called when reading the body is aborted.
+ * @param timings - The adapter timings, from performance.now().
+ * @returns The parsed response data.
+ */
+export async function parseResponseData<ForceSignal extends boolean>(
+  response: Response,
+  config: ResolvedRAWRequestConfig<ForceSignal>,
+  handleAbortError: () => never,
+  timings?: AdapterTimings
+): Promise<unknown> {
+  const responseType: ResponseType = config.responseType || "json"
+
+  try {
+    switch (responseType) {
+      case "json":
+        return await parseJSON(response, config, timings)
+
+      case "text":
+        return await response.text()
+
+      case "blob":
+        return await response.blob()
+
+      case "arraybuffer":
+        return await response.arrayBuffer()
+
+      case "stream":
+        return response.body
+
+      case "ndjson":
+        return readNDJSON(response, config, timings?.start ?? performance.now())
+
+      case "formdata":
+        return await response.formData()
+
+      case "document":
+        // A Document where DOMParser is available, the text otherwise
+        return parseDocumentText(
+          await response.text(),
+          response.headers.get("Content-Type")
+        )
+
+      case "auto":
+        return await parseAuto(response, config, timings)
+
+      default:
+        // Default to json
+        return await parseJSON(response, config, timings)
+    }
+  } catch (error) {
+    if (isHttpClientError(error)) {
+      throw error
+    }
+
+    // Handle abort/cancel errors during body reading
+    if (error instanceof Error && error.name === "AbortError") {
+      handleAbortError()
+    }
+
+    // Handle parsing errors
+    throw new HttpClientError(
+      `Failed to parse response: ${error instanceof Error ? error.message : String(error)}`,
+      HttpClientError.ERR_BAD_RESPONSE,
+      config,
+      createResponseConfig(response, config, undefined, timings)
+    )
+  }
+}
+
+/**
+ * Check if a status code is successful, used when validateStatus is not set.
+ *
+ * @param status - The response status.
+ * @returns True for 2xx status codes, false otherwise.
+ */
+export function defaultValidateStatus(status: number): boolean {
+  return status >= 200 && status < 300
+}
+
+/**
+ * Create the response config, throwing on status codes rejected by the
+ * validateStatus option.
+ *
+ * @param response - The response.
+ * @param config - The request config.
+ * @param data - The parsed response data.
+ * @param timings - The adapter timings, from performance.now().
+ * @returns The response config.
+ */
+export function settleResponse<ForceSignal extends boolean>(
+  response: Response,
+  config: ResolvedRAWRequestConfig<ForceSignal>,
+  data: unknown,
+  timings?: AdapterTimings
+): RAWResponseConfig {
+  const responseConfig = createResponseConfig(response, config, data, timings)
+  const validateStatus = config.validateStatus || defaultValidateStatus
+
+  // Check for HTTP error status codes
+  if (!validateStatus(response.status)) {
+    const status = response.status
+    const isClientError = status >= 400 && status < 500
+    const errorCode = isClientError
+      ? HttpClientError.ERR_BAD_REQUEST
+      : HttpClientError.ERR_BAD_RESPONSE
+
+    throw new HttpClientError(
+      `Request failed with status ${status}`,
+      errorCode,
+      config,
+      responseConfig
+    )
+  }
+
+  return responseConfig
+}
@@ -0,0 +1,180 @@
+import HttpClientError from "./httpClientError.js"
+import {
+  RAWResponseConfig,
+  ResolvedRAWRequestConfig,
+  TokenAuthOptions,
+} from "./types.js"
+import { isHttpClientError } from "./utils.js"
+
+/**
+ * Check if a failed request must refresh the token, used when shouldRefresh
+ * is not set.
+ *
+ * @param error - The request error.
+ * @returns True for 401 responses, false otherwise.
+ */
+function isUnauthorized(error: HttpClientError): boolean {
+  return error.status === 401
+}
+
+/**
+ * The TokenAuth class adds the Authorization header to requests and
+ * refreshes the token when a request is rejected.
+ *
+ * A single refresh runs at a time: requests sent meanwhile wait for it, and
+ * every request rejected with the previous token is replayed once with the
+ * new one. If the refresh fails, every waiting request fails with
+ * ERR_AUTH.
+ *
+ * @param options - The TokenAuth options
+ *
+ * @example
+ * ```typescript
+ * const httpClient = new HttpClient({
+ *   baseURL: "https://api.example.com",
+ *   auth: new TokenAuth({
+ *     getToken: () => store.accessToken,
+ *     refreshToken: async () => {
+ *       const response = await httpClient.post<Tokens>(
+ *         "/token",
+ *         { refreshToken: store.refreshToken },
+ *         { auth: false }
+ *       )
+ *       store.accessToken = response.data!.accessToken
+ *       return store.accessToken
+ *     },
+ *   }),
+ * })
+ *
+ * await httpClient.get("/health", { auth: false })
+ * ```
+ */
+export default class TokenAuth {
+  private refreshing?: Promise<string>
+
+  constructor(private options: TokenAuthOptions) {}
+
+  /**
+   * Dispatch a request with the token, refreshing it and replaying the
+   * request once if it is rejected.
+   *
+   * @param config - The request config.
+   * @param send - Function sending the request.
+   * @returns The response config.
+   */
+  async dispatch<ForceSignal extends boolean, T = unknown, D = unknown>(
+    config: ResolvedRAWRequestConfig<ForceSignal, D>,
+    send: (
+      config: ResolvedRAWRequestConfig<ForceSignal, D>
+    ) => Promise<RAWResponseConfig<T, D>>
+  ): Promise<RAWResponseConfig<T, D>> {
+    // An Authorization header set by the caller is left untouched
+    if (new Headers(config.headers).has("Authorization")) {
+      return send(config)
+    }
+
+    const token = await this.getToken(config)
+
+    try {
+      return await send(this.authorize(config, token))
+    } catch (error) {
+      const shouldRefresh = this.options.shouldRefresh || isUnauthorized
+      if (!isHttpClientError(error) || !shouldRefresh(error)) {
+        throw error
+      }
+
+      const refreshedToken = await this.refresh(token, error)
+      return send(this.authorize(config, refreshedToken))
+    }
+  }
+
+  /**
+   * Get the current token, waiting for a running refresh.
+   *
+   * @param config - The request config.
+   * @returns The token.
+   */
+  private async getToken<ForceSignal extends boolean, D>(
+    config: ResolvedRAWRequestConfig<ForceSignal, D>
+  ): Promise<string | null | undefined> {
+    if (this.refreshing) {
+      return this.waitForRefresh(config)
+    }
+
+    return this.options.getToken()
+  }
+
+  /**
+   * Refresh the token rejected by a request, sharing a running refresh.
+   *
+   * @param rejectedToken - The token the request was sent with.
+   * @param error - The request error.
+   * @returns The new token.
+   */
+  private async refresh(
+    rejectedToken: string | null | undefined,
+    error: HttpClientError
+  ): Promise<string> {
+    if (!this.refreshing) {
+      // The token may have been refreshed while the request was in flight
+      const currentToken = await this.options.getToken()
+      if (currentToken && currentToken !== rejectedToken) {
+        return currentToken
+      }
+    }
+
+    if (!this.refreshing) {
+      this.refreshing = Promise.resolve()
+        .then(() => this.options.refreshToken())
+        .finally(() => {
+          this.refreshing = undefined
+        })
+    }
+
+    return this.waitForRefresh(error.requestConfig, error.responseConfig)
+  }
+
+  /**
+   * Wait for the running refresh, failing with ERR_AUTH if it fails.
+   *
+   * @param requestConfig - The config of the waiting request.
+   * @param responseConfig - The response rejecting the waiting request.
+   * @returns The new token.
+   */
+  private async waitForRefresh(
+    requestConfig: HttpClientError["requestConfig"],
+    responseConfig?: HttpClientError["responseConfig"]
+  ): Promise<string> {
+    try {
+      return await this.refreshing!
+    } catch (refreshError) {
+      throw new HttpClientError(
+        `Token refresh failed: ${refreshError instanceof Error ? refreshError.message : String(refreshError)}`,
+        HttpClientError.ERR_AUTH,
+        requestConfig,
+        responseConfig
+      )
+    }
+  }
+
+  /**
+   * Add the Authorization header to a request config.
+   *
+   * @param config - The request config.
+   * @param token - The token, the header is not added when it is empty.
+   * @returns The authorized request config.
+   */
+  private authorize<ForceSignal extends boolean, D>(
+    config: ResolvedRAWRequestConfig<ForceSignal, D>,
+    token: string | null | undefined
+  ): ResolvedRAWRequestConfig<ForceSignal, D> {
+    if (!token) {
+      return config
+    }
+
+    const headers = new Headers(config.headers)
+    headers.set("Authorization", `${this.options.scheme ?? "Bearer"} ${token}`)
+
+    return { ...config, headers }
+  }
+}
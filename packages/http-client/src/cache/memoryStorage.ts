@@ -0,0 +1,70 @@
+import { CacheEntry, CacheStorage } from "../types.js"
+
+/**
+ * The MemoryCacheStorage class stores cached responses in memory, evicting
+ * the least recently used entry once the limit is reached.
+ *
+ * @param maxEntries - The maximum number of stored entries, defaults to 500
+ *
+ * @example
+ * ```typescript
+ * const cache = new ResponseCache({
+ *   storage: new MemoryCacheStorage(100),
+ * })
+ * ```
+ */
+export default class MemoryCacheStorage implements CacheStorage {
+  private entries = new Map<string, CacheEntry>()
+
+  constructor(private maxEntries = 500) {}
+
+  /**
+   * Get an entry, marking it as recently used.
+   *
+   * @param key - The cache key.
+   * @returns The entry, or undefined if it is not stored.
+   */
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key)
+    if (entry) {
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+    }
+
+    return entry
+  }
+
+  /**
+   * Store an entry, evicting the least recently used entries if needed.
+   *
+   * @param key - The cache key.
+   * @param entry - The entry to store.
+   */
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+    }
+  }
+
+  /**
+   * Delete an entry.
+   *
+   * @param key - The cache key.
+   */
+  delete(key: string): void {
+    this.entries.delete(key)
+  }
+
+  /**
+   * List every stored key.
+   *
+   * @returns The stored keys.
+   */
+  keys(): string[] {
+    return [...this.entries.keys()]
+  }
+}
@@ -0,0 +1,532 @@
+import {
+  buildRequestURL,
+  createResponseConfig,
+  defaultValidateStatus,
+} from "../adapters/shared.js"
+import {
+  CacheEntry,
+  CacheStorage,
+  RAWResponseConfig,
+  ResolvedRAWRequestConfig,
+  ResponseCacheOptions,
+} from "../types.js"
+
+import MemoryCacheStorage from "./memoryStorage.js"
+
+// Methods whose responses are stored
+const CACHEABLE_METHODS = ["GET", "HEAD"]
+
+// Methods that never invalidate stored responses
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"]
+
+// Freshness used for responses cached indefinitely, kept finite for storages
+// serializing entries as JSON
+const INDEFINITELY = Number.MAX_SAFE_INTEGER
+
+type Freshness = Pick<CacheEntry, "maxAge" | "staleWhileRevalidate">
+
+/**
+ * Parse a Cache-Control header.
+ *
+ * @param value - The header value.
+ * @returns The directives keyed by lowercase name, true for directives without value.
+ */
+function parseCacheControl(value: string | null): Map<string, string | true> {
+  const directives = new Map<string, string | true>()
+
+  for (const part of (value || "").split(",")) {
+    const [name = "", ...rest] = part.split("=")
+    if (!name.trim()) {
+      continue
+    }
+
+    const directive = rest.join("=").trim().replace(/^"|"$/g, "")
+    directives.set(name.trim().toLowerCase(), directive || true)
+  }
+
+  return directives
+}
+
+/**
+ * Parse a delta-seconds value into milliseconds.
+ *
+ * @param value - The value to parse.
+ * @returns The milliseconds, or undefined if the value is invalid.
+ */
+function parseSeconds(value: string | true | null | undefined) {
+  return typeof value === "string" && /^\d+$/.test(value)
+    ? Number(value) * 1000
+    : undefined
+}
+
+/**
+ * Compute how long a response stays fresh.
+ *
+ * The revalidate option of the request overrides the response freshness,
+ * otherwise it is read from Cache-Control max-age or Expires.
+ *
+ * @param headers - The response headers.
+ * @param config - The request config.
+ * @returns The freshness, or undefined if the response must not be stored.
+ */
+function getFreshness<ForceSignal extends boolean>(
+  headers: Headers,
+  config: ResolvedRAWRequestConfig<ForceSignal>
+): Freshness | undefined {
+  const directives = parseCacheControl(headers.get("Cache-Control"))
+  if (directives.has("no-store")) {
+    return undefined
+  }
+
+  const revalidate = config.next?.revalidate ?? config.revalidate
+  if (revalidate === 0) {
+    return undefined
+  }
+
+  let maxAge: number
+  if (revalidate === false) {
+    maxAge = INDEFINITELY
+  } else if (typeof revalidate === "number") {
+    maxAge = revalidate * 1000
+  } else if (directives.has("no-cache")) {
+    maxAge = 0
+  } else {
+    maxAge = parseSeconds(directives.get("max-age")) ?? 0
+
+    const expires = headers.get("Expires")
+    if (!directives.has("max-age") && expires) {
+      const date = Date.parse(headers.get("Date") || "") || Date.now()
+      maxAge = (Date.parse(expires) || 0) - date
+    }
+
+    // Time the response already spent in upstream caches
+    maxAge -= parseSeconds(headers.get("Age")) ?? 0
+  }
+
+  const staleWhileRevalidate =
+    parseSeconds(directives.get("stale-while-revalidate")) ?? 0
+
+  // A response that is never fresh is only worth storing if it can be
+  // revalidated
+  const hasValidator = headers.has("ETag") || headers.has("Last-Modified")
+  if (maxAge <= 0 && !staleWhileRevalidate && !hasValidator) {
+    return undefined
+  }
+
+  return { maxAge: Math.max(0, maxAge), staleWhileRevalidate }
+}
+
+/**
+ * Get the request header values a response varies on.
+ *
+ * @param headers - The response headers.
+ * @param requestHeaders - The request headers.
+ * @returns The header values keyed by lowercase name, or undefined if the
+ * response varies on everything.
+ */
+function getVary(
+  headers: Headers,
+  requestHeaders: Headers
+): Record<string, string | null> | undefined {
+  const vary: Record<string, string | null> = {}
+
+  for (const name of (headers.get("Vary") || "").split(",")) {
+    const headerName = name.trim().toLowerCase()
+    if (headerName === "*") {
+      return undefined
+    }
+
+    if (headerName) {
+      vary[headerName] = requestHeaders.get(headerName)
+    }
+  }
+
+  return vary
+}
+
+/**
+ * Copy response data so that callers cannot mutate the cached data.
+ *
+ * @param data - The response data.
+ * @returns The copied data.
+ */
+function cloneData(data: unknown): unknown {
+  try {
+    return structuredClone(data)
+  } catch {
+    // Keep the shared reference for data that cannot be cloned
+    return data
+  }
+}
+
+/**
+ * The ResponseCache class stores GET and HEAD responses following their
+ * Cache-Control, Expires, ETag and Last-Modified headers.
+ *
+ * Fresh responses are served without a request, stale responses are
+ * revalidated with a conditional request and a 304 response is turned back
+ * into the cached response. Responses within their stale-while-revalidate
+ * window are served at once while they are revalidated in the background.
+ *
+ * @param options - The ResponseCache options
+ *
+ * @example
+ * ```typescript
+ * const cache = new ResponseCache()
+ * const httpClient = new HttpClient({
+ *   baseURL: "https://api.example.com",
+ *   responseCache: cache,
+ * })
+ *
+ * await httpClient.get("/users", { next: { tags: ["users"] } })
+ *
+ * await cache.invalidateTags("users")
+ * await cache.invalidatePrefix("https://api.example.com/users")
+ * ```
+ */
+export default class ResponseCache {
+  private storage: CacheStorage
+
+  private revalidating = new Set<string>()
+
+  constructor(private options: ResponseCacheOptions = {}) {
+    this.storage = options.storage || new MemoryCacheStorage()
+  }
+
+  /**
+   * Dispatch a request through the cache.
+   *
+   * @param config - The request config.
+   * @param send - Function sending the request.
+   * @returns The response config.
+   */
+  async dispatch<ForceSignal extends boolean, T = unknown, D = unknown>(
+    config: ResolvedRAWRequestConfig<ForceSignal, D>,
+    send: (
+      config: ResolvedRAWRequestConfig<ForceSignal, D>
+    ) => Promise<RAWResponseConfig<T, D>>
+  ): Promise<RAWResponseConfig<T, D>> {
+    const method = (config.method || "GET").toUpperCase()
+
+    if (!CACHEABLE_METHODS.includes(method)) {
+      const responseConfig = await send(config)
+
+      // Successful unsafe requests invalidate the responses of their URL
+      if (!SAFE_METHODS.includes(method)) {
+        const url = buildRequestURL(config).href
+        await this.invalidate((entry) => entry.url === url)
+      }
+
+      return responseConfig
+    }
+
+    const requestHeaders = new Headers(config.headers)
+    const directives = parseCacheControl(requestHeaders.get("Cache-Control"))
+    const key = this.getKey(config)
+
+    // Conditional requests built by the caller are left untouched
+    if (
+      key === undefined ||
+      directives.has("no-store") ||
+      requestHeaders.has("If-None-Match") ||
+      requestHeaders.has("If-Modified-Since")
+    ) {
+      return send(config)
+    }
+
+    const entry = await this.lookup(key, requestHeaders)
+
+    if (entry && !directives.has("no-cache")) {
+      const age = Date.now() - entry.storedAt
+
+      if (age < entry.maxAge) {
+        return this.toResponseConfig(entry, config) as RAWResponseConfig<T, D>
+      }
+
+      if (age < entry.maxAge + entry.staleWhileRevalidate) {
+        this.revalidateInBackground(key, entry, config, send)
+        return this.toResponseConfig(entry, config) as RAWResponseConfig<T, D>
+      }
+    }
+
+    return this.fetch(key, entry, config, send) as Promise<
+      RAWResponseConfig<T, D>
+    >
+  }
+
+  /**
+   * Invalidate the responses whose request URL starts with a prefix.
+   *
+   * @param prefix - The URL prefix.
+   */
+  invalidatePrefix(prefix: string | URL): Promise<void> {
+    const value = String(prefix)
+    return this.invalidate((entry) => entry.url.startsWith(value))
+  }
+
+  /**
+   * Invalidate the responses tagged with any of the tags.
+   *
+   * @param tags - The tags, as set in the next.tags request option.
+   */
+  invalidateTags(...tags: string[]): Promise<void> {
+    return this.invalidate((entry) => entry.tags.some((t) => tags.includes(t)))
+  }
+
+  /**
+   * Invalidate every response.
+   */
+  clear(): Promise<void> {
+    return this.invalidate(() => true)
+  }
+
+  /**
+   * Delete the entries matching a predicate.
+   *
+   * @param predicate - The predicate.
+   */
+  private async invalidate(
+    predicate: (entry: CacheEntry) => boolean
+  ): Promise<void> {
+    for (const key of [...(await this.storage.keys())]) {
+      const entry = await this.storage.get(key)
+      if (entry && predicate(entry)) {
+        await this.storage.delete(key)
+      }
+    }
+  }
+
+  /**
+   * Get the cache key of a request.
+   *
+   * @param config - The request config.
+   * @returns The key, or undefined if the request bypasses the cache.
+   */
+  private getKey<ForceSignal extends boolean>(
+    config: ResolvedRAWRequestConfig<ForceSignal>
+  ): string | undefined {
+    // Streams can only be read once
+    if (config.responseType === "stream" || config.responseType === "ndjson") {
+      return undefined
+    }
+
+    if (this.options.key) {
+      return this.options.key(config)
+    }
+
+    return JSON.stringify([
+      (config.method || "GET").toUpperCase(),
+      buildRequestURL(config).href,
+      config.responseType || "json",
+      new Headers(config.headers).get("Authorization"),
+    ])
+  }
+
+  /**
+   * Get the entry matching a request.
+   *
+   * @param key - The cache key.
+   * @param requestHeaders - The request headers.
+   * @returns The entry, or undefined if none matches the request headers.
+   */
+  private async lookup(
+    key: string,
+    requestHeaders: Headers
+  ): Promise<CacheEntry | undefined> {
+    const entry = await this.storage.get(key)
+    if (!entry) {
+      return undefined
+    }
+
+    const matches = Object.entries(entry.vary).every(
+      ([name, value]) => requestHeaders.get(name) === value
+    )
+
+    return matches ? entry : undefined
+  }
+
+  /**
+   * Send a request, conditional if a stored entry can be revalidated.
+   *
+   * @param key - The cache key.
+   * @param entry - The stored entry.
+   * @param config - The request config.
+   * @param send - Function sending the request.
+   * @returns The response config.
+   */
+  private async fetch<ForceSignal extends boolean, D>(
+    key: string,
+    entry: CacheEntry | undefined,
+    config: ResolvedRAWRequestConfig<ForceSignal, D>,
+    send: (
+      config: ResolvedRAWRequestConfig<ForceSignal, D>
+    ) => Promise<RAWResponseConfig>
+  ): Promise<RAWResponseConfig> {
+    const entryHeaders = new Headers(entry?.headers)
+    const etag = entryHeaders.get("ETag")
+    const lastModified = entryHeaders.get("Last-Modified")
+
+    const headers = new Headers(config.headers)
+    if (etag) {
+      headers.set("If-None-Match", etag)
+    }
+    if (lastModified) {
+      headers.set("If-Modified-Since", lastModified)
+    }
+
+    // A 304 response is a success of a conditional request
+    const validateStatus = config.validateStatus || defaultValidateStatus
+    const responseConfig = await send(
+      etag || lastModified
+        ? {
+            ...config,
+            headers,
+            validateStatus: (status) =>
+              status === 304 || validateStatus(status),
+          }
+        : config
+    )
+
+    if (entry && responseConfig.status === 304) {
+      return this.refresh(key, entry, responseConfig.headers, config)
+    }
+
+    await this.store(key, responseConfig, config)
+    return responseConfig
+  }
+
+  /**
+   * Revalidate a stale entry without waiting for the response.
+   *
+   * @param key - The cache key.
+   * @param entry - The stored entry.
+   * @param config - The request config.
+   * @param send - Function sending the request.
+   */
+  private revalidateInBackground<ForceSignal extends boolean, D>(
+    key: string,
+    entry: CacheEntry,
+    config: ResolvedRAWRequestConfig<ForceSignal, D>,
+    send: (
+      config: ResolvedRAWRequestConfig<ForceSignal, D>
+    ) => Promise<RAWResponseConfig>
+  ): void {
+    if (this.revalidating.has(key)) {
+      return
+    }
+    this.revalidating.add(key)
+
+    // The caller signal must not cancel a request it no longer waits for
+    const detached = {
+      ...config,
+      signal: new AbortController().signal,
+    } as ResolvedRAWRequestConfig<ForceSignal, D>
+
+    this.fetch(key, entry, detached, send)
+      .catch(() => {
+        // Keep serving the stale entry until it expires
+      })
+      .finally(() => {
+        this.revalidating.delete(key)
+      })
+  }
+
+  /**
+   * Update a stored entry with the headers of a 304 response.
+   *
+   * @param key - The cache key.
+   * @param entry - The stored entry.
+   * @param headers - The 304 response headers.
+   * @param config - The request config.
+   * @returns The response config built from the updated entry.
+   */
+  private async refresh<ForceSignal extends boolean>(
+    key: string,
+    entry: CacheEntry,
+    headers: Headers,
+    config: ResolvedRAWRequestConfig<ForceSignal>
+  ): Promise<RAWResponseConfig> {
+    const merged = new Headers(entry.headers)
+    headers.forEach((value, name) => {
+      if (name !== "content-length") {
+        merged.set(name, value)
+      }
+    })
+
+    const updated: CacheEntry = {
+      ...entry,
+      headers: [...merged],
+      storedAt: Date.now(),
+    }
+
+    const freshness = getFreshness(merged, config)
+    if (freshness) {
+      await this.storage.set(key, { ...updated, ...freshness })
+    } else {
+      await this.storage.delete(key)
+    }
+
+    return this.toResponseConfig(updated, config)
+  }
+
+  /**
+   * Store a response if it is cacheable.
+   *
+   * @param key - The cache key.
+   * @param responseConfig - The response config.
+   * @param config - The request config.
+   */
+  private async store<ForceSignal extends boolean>(
+    key: string,
+    responseConfig: RAWResponseConfig,
+    config: ResolvedRAWRequestConfig<ForceSignal>
+  ): Promise<void> {
+    const { status, headers } = responseConfig
+    if (status < 200 || status >= 300 || status === 206) {
+      return
+    }
+
+    const freshness = getFreshness(headers, config)
+    const vary = getVary(headers, new Headers(config.headers))
+    if (!freshness || !vary) {
+      await this.storage.delete(key)
+      return
+    }
+
+    await this.storage.set(key, {
+      url: buildRequestURL(config).href,
+      status,
+      statusText: responseConfig.statusText,
+      headers: [...headers],
+      data: cloneData(responseConfig.data),
+      storedAt: Date.now(),
+      ...freshness,
+      vary,
+      tags: config.next?.tags || [],
+    })
+  }
+
+  /**
+   * Build the response config of a stored entry.
+   *
+   * @param entry - The stored entry.
+   * @param config - The request config.
+   * @returns The response config.
+   */
+  private toResponseConfig<ForceSignal extends boolean>(
+    entry: CacheEntry,
+    config: ResolvedRAWRequestConfig<ForceSignal>
+  ): RAWResponseConfig {
+    const headers = new Headers(entry.headers)
+    headers.set("Age", String(Math.floor((Date.now() - entry.storedAt) / 1000)))
+
+    const response = new Response(null, {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers,
+    })
+    Object.defineProperty(response, "url", { value: entry.url })
+
+    return createResponseConfig(response, config, cloneData(entry.data))
+  }
+}
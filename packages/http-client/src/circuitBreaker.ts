@@ -0,0 +1,323 @@
+import { buildRequestURL } from "./adapters/shared.js"
+import HttpClientError from "./httpClientError.js"
+import {
+  CircuitBreakerOptions,
+  CircuitState,
+  CircuitStateChangeEvent,
+  RAWResponseConfig,
+  ResolvedRAWRequestConfig,
+} from "./types.js"
+import { isHttpClientError } from "./utils.js"
+
+type Circuit = {
+  state: CircuitState
+  // Consecutive failures while closed
+  failures: number
+  // Outcomes of the latest requests while closed, true for failures
+  outcomes: boolean[]
+  openedAt: number
+  // Trial requests in flight and succeeded while half-open
+  trials: number
+  successes: number
+}
+
+const FAILURE_CODES: unknown[] = [
+  HttpClientError.ERR_NETWORK,
+  HttpClientError.ERR_TIMEDOUT,
+]
+
+/**
+ * Check if an error counts as a failure, used when isFailure is not set.
+ *
+ * @param error - The request error.
+ * @returns True for network errors, timeouts and 5xx responses, false otherwise.
+ */
+function isServerFailure(error: HttpClientError): boolean {
+  return FAILURE_CODES.includes(error.code) || error.status >= 500
+}
+
+/**
+ * Get the circuit key of a request, used when key is not set.
+ *
+ * @param config - The request config.
+ * @returns The origin of the request URL.
+ */
+function getOrigin<ForceSignal extends boolean>(
+  config: ResolvedRAWRequestConfig<ForceSignal>
+): string {
+  return buildRequestURL(config).origin
+}
+
+/**
+ * The CircuitBreaker class fails requests fast while the host or route they
+ * go through keeps failing.
+ *
+ * A circuit opens after consecutive failures or once the failure rate of its
+ * latest requests reaches the threshold. Requests then fail with
+ * ERR_CIRCUIT_OPEN until the cool-down elapses, after which the circuit is
+ * half-open: a limited number of trial requests are let through, closing the
+ * circuit when they succeed and reopening it when one fails.
+ *
+ * @param options - The CircuitBreaker options
+ *
+ * @example
+ * ```typescript
+ * const circuitBreaker = new CircuitBreaker({
+ *   failureThreshold: 3,
+ *   coolDown: 10000,
+ * })
+ * circuitBreaker.onStateChange(({ key, to }) => {
+ *   metrics.gauge("circuit_state", to, { key })
+ * })
+ *
+ * const httpClient = new HttpClient({ circuitBreaker })
+ * ```
+ */
+export default class CircuitBreaker {
+  private circuits = new Map<string, Circuit>()
+
+  private listeners = new Set<(event: CircuitStateChangeEvent) => void>()
+
+  constructor(private options: CircuitBreakerOptions = {}) {}
+
+  /**
+   * Dispatch a request through its circuit.
+   *
+   * @param config - The request config.
+   * @param send - Function sending the request.
+   * @returns The response config.
+   */
+  async dispatch<ForceSignal extends boolean, T = unknown, D = unknown>(
+    config: ResolvedRAWRequestConfig<ForceSignal, D>,
+    send: (
+      config: ResolvedRAWRequestConfig<ForceSignal, D>
+    ) => Promise<RAWResponseConfig<T, D>>
+  ): Promise<RAWResponseConfig<T, D>> {
+    const key = this.options.key ? this.options.key(config) : getOrigin(config)
+    const circuit = this.acquire(key, config)
+
+    try {
+      const response = await send(config)
+      this.record(key, circuit, false)
+      return response
+    } catch (error) {
+      const isFailure = this.options.isFailure || isServerFailure
+      this.record(
+        key,
+        circuit,
+        isHttpClientError(error) && isFailure(error) ? true : undefined
+      )
+      throw error
+    }
+  }
+
+  /**
+   * Get the state of a circuit.
+   *
+   * @param key - The circuit key.
+   * @returns The circuit state, closed for unknown circuits.
+   */
+  getState(key: string): CircuitState {
+    const circuit = this.circuits.get(key)
+    if (!circuit) {
+      return "closed"
+    }
+
+    if (circuit.state === "open" && this.hasCooledDown(circuit)) {
+      return "half-open"
+    }
+
+    return circuit.state
+  }
+
+  /**
+   * Close a circuit, or every circuit when no key is given.
+   *
+   * @param key - The circuit key.
+   */
+  reset(key?: string): void {
+    const keys = key === undefined ? [...this.circuits.keys()] : [key]
+
+    for (const circuitKey of keys) {
+      const circuit = this.circuits.get(circuitKey)
+      if (circuit) {
+        this.transition(circuitKey, circuit, "closed")
+      }
+    }
+  }
+
+  /**
+   * Listen to the state changes of every circuit. A throwing listener does
+   * not prevent the others from being called, nor fails the request.
+   *
+   * @param listener - Function called with each state change.
+   * @returns Function removing the listener.
+   */
+  onStateChange(listener: (event: CircuitStateChangeEvent) => void) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Let a request through its circuit.
+   *
+   * @param key - The circuit key.
+   * @param config - The request config.
+   * @returns The circuit.
+   * @throws {HttpClientError} If the circuit is open.
+   */
+  private acquire<ForceSignal extends boolean>(
+    key: string,
+    config: ResolvedRAWRequestConfig<ForceSignal>
+  ): Circuit {
+    let circuit = this.circuits.get(key)
+    if (!circuit) {
+      circuit = {
+        state: "closed",
+        failures: 0,
+        outcomes: [],
+        openedAt: 0,
+        trials: 0,
+        successes: 0,
+      }
+      this.circuits.set(key, circuit)
+    }
+
+    if (circuit.state === "open" && this.hasCooledDown(circuit)) {
+      this.transition(key, circuit, "half-open")
+    }
+
+    const halfOpenRequests = this.options.halfOpenRequests ?? 1
+    if (
+      circuit.state === "open" ||
+      (circuit.state === "half-open" &&
+        circuit.trials + circuit.successes >= halfOpenRequests)
+    ) {
+      throw new HttpClientError(
+        `Circuit open for ${key}`,
+        HttpClientError.ERR_CIRCUIT_OPEN,
+        config
+      )
+    }
+
+    if (circuit.state === "half-open") {
+      circuit.trials++
+    }
+
+    return circuit
+  }
+
+  /**
+   * Record the outcome of a request and update its circuit.
+   *
+   * @param key - The circuit key.
+   * @param circuit - The circuit the request went through.
+   * @param failed - Whether the request failed, undefined if the outcome does
+   * not count, such as a canceled request.
+   */
+  private record(key: string, circuit: Circuit, failed: boolean | undefined) {
+    // The circuit may have been reset or replaced meanwhile
+    if (this.circuits.get(key) !== circuit) {
+      return
+    }
+
+    if (circuit.state === "half-open") {
+      circuit.trials = Math.max(0, circuit.trials - 1)
+
+      if (failed) {
+        this.transition(key, circuit, "open")
+      } else if (failed === false) {
+        circuit.successes++
+        if (circuit.successes >= (this.options.halfOpenRequests ?? 1)) {
+          this.transition(key, circuit, "closed")
+        }
+      }
+      return
+    }
+
+    // Requests sent before the circuit opened do not count
+    if (circuit.state !== "closed" || failed === undefined) {
+      return
+    }
+
+    circuit.failures = failed ? circuit.failures + 1 : 0
+    circuit.outcomes.push(failed)
+    if (circuit.outcomes.length > (this.options.windowSize ?? 20)) {
+      circuit.outcomes.shift()
+    }
+
+    if (
+      circuit.failures >= (this.options.failureThreshold ?? 5) ||
+      (circuit.outcomes.length >= (this.options.minimumRequests ?? 10) &&
+        this.getFailureRate(circuit) >=
+          (this.options.failureRateThreshold ?? 0.5))
+    ) {
+      this.transition(key, circuit, "open")
+    }
+  }
+
+  /**
+   * Move a circuit to another state and notify the listeners.
+   *
+   * @param key - The circuit key.
+   * @param circuit - The circuit.
+   * @param state - The new state.
+   */
+  private transition(key: string, circuit: Circuit, state: CircuitState) {
+    const event: CircuitStateChangeEvent = {
+      key,
+      from: circuit.state,
+      to: state,
+      failures: circuit.failures,
+      failureRate: this.getFailureRate(circuit),
+    }
+
+    circuit.state = state
+    circuit.trials = 0
+    circuit.successes = 0
+    if (state === "open") {
+      circuit.openedAt = Date.now()
+    } else if (state === "closed") {
+      circuit.failures = 0
+      circuit.outcomes = []
+    }
+
+    if (event.from === event.to) {
+      return
+    }
+
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(event)
+      } catch {
+        // Listener errors must not fail the request
+      }
+    }
+  }
+
+  /**
+   * Check if an open circuit may let trial requests through.
+   *
+   * @param circuit - The circuit.
+   * @returns True once the cool-down elapsed, false otherwise.
+   */
+  private hasCooledDown(circuit: Circuit): boolean {
+    return Date.now() - circuit.openedAt >= (this.options.coolDown ?? 30000)
+  }
+
+  /**
+   * Compute the failure rate of the latest requests of a circuit.
+   *
+   * @param circuit - The circuit.
+   * @returns The failure rate, between 0 and 1.
+   */
+  private getFailureRate(circuit: Circuit): number {
+    if (circuit.outcomes.length === 0) {
+      return 0
+    }
+
+    return circuit.outcomes.filter(Boolean).length / circuit.outcomes.length
+  }
+}
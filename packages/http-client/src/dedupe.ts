@@ -0,0 +1,232 @@
+import { buildRequestURL } from "./adapters/shared.js"
+import HttpClientError from "./httpClientError.js"
+import { RAWResponseConfig, ResolvedRAWRequestConfig } from "./types.js"
+import { isHttpClientError } from "./utils.js"
+
+const DEFAULT_KEY_HEADERS = [
+  "Accept",
+  "Accept-Language",
+  "Authorization",
+  "Cookie",
+  "If-Modified-Since",
+  "If-None-Match",
+]
+
+type InflightRequest = {
+  promise: Promise<RAWResponseConfig>
+  controller: AbortController
+  waiting: number
+}
+
+/**
+ * Build the default deduplication key of a request.
+ *
+ * @param config - The request config.
+ * @param headerNames - The header names included in the key.
+ * @returns The key, or undefined if the request must not be shared.
+ */
+function defaultKey<ForceSignal extends boolean>(
+  config: ResolvedRAWRequestConfig<ForceSignal>,
+  headerNames: string[]
+): string | undefined {
+  const method = (config.method || "GET").toUpperCase()
+  if (method !== "GET" && method !== "HEAD") {
+    return undefined
+  }
+
+  // Progress callbacks belong to a single caller
+  if (config.onUploadProgress || config.onDownloadProgress) {
+    return undefined
+  }
+
+  let url: URL
+  try {
+    url = buildRequestURL(config)
+  } catch {
+    return undefined
+  }
+
+  const headers = new Headers(config.headers)
+  const keyHeaders = headerNames.map((name) => [
+    name.toLowerCase(),
+    headers.get(name),
+  ])
+
+  return JSON.stringify([
+    method,
+    url.href,
+    config.responseType || "json",
+    keyHeaders,
+  ])
+}
+
+/**
+ * Copy a shared response for one caller.
+ *
+ * @param responseConfig - The shared response config.
+ * @param config - The request config of the caller.
+ * @returns The response config of the caller.
+ */
+function copyResponse<ForceSignal extends boolean>(
+  responseConfig: RAWResponseConfig,
+  config: ResolvedRAWRequestConfig<ForceSignal>
+): RAWResponseConfig {
+  let data = responseConfig.data
+  try {
+    data = structuredClone(data)
+  } catch {
+    // Keep the shared reference for data that cannot be cloned
+  }
+
+  return { ...responseConfig, requestConfig: config, data }
+}
+
+/**
+ * The RequestDeduplicator class shares one adapter call between concurrent
+ * identical requests.
+ *
+ * Every caller gets its own response config and keeps its own signal: an
+ * aborted caller is rejected on its own, and the shared call is only aborted
+ * once every caller has aborted.
+ */
+export default class RequestDeduplicator {
+  private inflight = new Map<string, InflightRequest>()
+
+  /**
+   * Dispatch a request, joining an identical in-flight request if any.
+   *
+   * @param config - The request config.
+   * @param send - Function sending the request.
+   * @returns The response config of the caller.
+   */
+  dispatch<ForceSignal extends boolean, T = unknown, D = unknown>(
+    config: ResolvedRAWRequestConfig<ForceSignal, D>,
+    send: (
+      config: ResolvedRAWRequestConfig<ForceSignal, D>
+    ) => Promise<RAWResponseConfig<T, D>>
+  ): Promise<RAWResponseConfig<T, D>> {
+    const key = this.getKey(config)
+    if (key === undefined || (config.signal && config.signal.aborted)) {
+      return send(config)
+    }
+
+    let entry = this.inflight.get(key)
+    if (!entry) {
+      const controller = new AbortController()
+      const created: InflightRequest = {
+        promise: send({ ...config, signal: controller.signal }),
+        controller,
+        waiting: 0,
+      }
+
+      const remove = () => {
+        if (this.inflight.get(key) === created) {
+          this.inflight.delete(key)
+        }
+      }
+      created.promise.then(remove, remove)
+
+      this.inflight.set(key, created)
+      entry = created
+    }
+
+    return this.join(key, entry, config) as Promise<RAWResponseConfig<T, D>>
+  }
+
+  /**
+   * Get the deduplication key of a request.
+   *
+   * @param config - The request config.
+   * @returns The key, or undefined if the request must not be shared.
+   */
+  private getKey<ForceSignal extends boolean>(
+    config: ResolvedRAWRequestConfig<ForceSignal>
+  ): string | undefined {
+    if (
+      !config.dedupe ||
+      config.responseType === "stream" ||
+      config.responseType === "ndjson"
+    ) {
+      return undefined
+    }
+
+    const dedupe = config.dedupe === true ? {} : config.dedupe
+    if (dedupe.key) {
+      return dedupe.key(config)
+    }
+
+    return defaultKey(config, dedupe.headers || DEFAULT_KEY_HEADERS)
+  }
+
+  /**
+   * Wait for a shared request on behalf of one caller.
+   *
+   * @param key - The deduplication key.
+   * @param entry - The in-flight request.
+   * @param config - The request config of the caller.
+   * @returns The response config of the caller.
+   */
+  private join<ForceSignal extends boolean>(
+    key: string,
+    entry: InflightRequest,
+    config: ResolvedRAWRequestConfig<ForceSignal>
+  ): Promise<RAWResponseConfig> {
+    const signal = config.signal || undefined
+    entry.waiting += 1
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        reject(
+          new HttpClientError(
+            "Request canceled",
+            HttpClientError.ERR_CANCELED,
+            config
+          )
+        )
+
+        // Abort the shared request once every caller has aborted
+        entry.waiting -= 1
+        if (entry.waiting === 0) {
+          if (this.inflight.get(key) === entry) {
+            this.inflight.delete(key)
+          }
+          entry.controller.abort()
+        }
+      }
+
+      if (signal) {
+        if (signal.aborted) {
+          onAbort()
+          return
+        }
+        signal.addEventListener("abort", onAbort, { once: true })
+      }
+
+      entry.promise.then(
+        (responseConfig) => {
+          signal?.removeEventListener("abort", onAbort)
+          resolve(copyResponse(responseConfig, config))
+        },
+        (error) => {
+          signal?.removeEventListener("abort", onAbort)
+
+          if (!isHttpClientError(error)) {
+            reject(error)
+            return
+          }
+
+          const copy = new HttpClientError(
+            error.message,
+            error.code as string | undefined,
+            config,
+            error.responseConfig && copyResponse(error.responseConfig, config),
+            error.issues
+          )
+          // Errors without response are timed by the client
+          copy.timings ??= error.timings
+          reject(copy)
+        }
+      )
+    })
+  }
+}
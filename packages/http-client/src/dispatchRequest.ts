@@ -1,10 +1,6 @@
-import fetchAdapter from "./adapters/fetch.js"
+import { resolveAdapter } from "./adapters/registry.js"
 import HttpClientError from "./httpClientError.js"
-import {
-  HttpClientAdapter,
-  RAWResponseConfig,
-  ResolvedRAWRequestConfig,
-} from "./types.js"
+import { RAWResponseConfig, ResolvedRAWRequestConfig } from "./types.js"
 
 /**
  * Dispatch the request.
@@ -26,33 +22,11 @@ const dispatchRequest = async <
     )
   }
 
-  let adapter: HttpClientAdapter<ForceSignal>
-
   if (!config.adapter) {
     config.adapter = "fetch"
   }
 
-  if (typeof config.adapter === "string") {
-    switch (config.adapter) {
-      case "fetch":
-        adapter = fetchAdapter
-        break
-      default:
-        throw new HttpClientError(
-          "Invalid adapter name",
-          HttpClientError.ERR_BAD_CONFIG_VALUE,
-          config
-        )
-    }
-  } else if (typeof config.adapter === "function") {
-    adapter = config.adapter as HttpClientAdapter<ForceSignal>
-  } else {
-    throw new HttpClientError(
-      "Invalid adapter function",
-      HttpClientError.ERR_BAD_CONFIG_VALUE,
-      config
-    )
-  }
+  const adapter = resolveAdapter<ForceSignal>(config)
 
   return adapter(config) as Promise<RAWResponseConfig<T, D>>
 }
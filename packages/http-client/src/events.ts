@@ -0,0 +1,95 @@
+/**
+ * Typed event emitter.
+ *
+ * Listeners are called synchronously in registration order. A throwing
+ * listener does not prevent the others from being called, nor fails the
+ * request that emitted the event.
+ *
+ * @template E - The event map, from event type to event payload
+ *
+ * @example
+ * ```typescript
+ * const off = httpClient.events.on("error", ({ config, code, timings }) => {
+ *   metrics.increment("http_errors", { url: config.url, code })
+ * })
+ *
+ * off()
+ * ```
+ */
+export default class EventEmitter<E extends object> {
+  private listeners = new Map<keyof E, Set<(event: never) => void>>()
+
+  /**
+   * Add a listener for an event type.
+   *
+   * @param type - The event type
+   * @param listener - Function called with each event
+   * @returns Function removing the listener
+   */
+  on<K extends keyof E>(type: K, listener: (event: E[K]) => void): () => void {
+    let listeners = this.listeners.get(type)
+    if (!listeners) {
+      listeners = new Set()
+      this.listeners.set(type, listeners)
+    }
+
+    listeners.add(listener)
+    return () => this.off(type, listener)
+  }
+
+  /**
+   * Add a listener called with the next event of a type only.
+   *
+   * @param type - The event type
+   * @param listener - Function called with the next event
+   * @returns Function removing the listener
+   */
+  once<K extends keyof E>(
+    type: K,
+    listener: (event: E[K]) => void
+  ): () => void {
+    const off = this.on(type, (event) => {
+      off()
+      listener(event)
+    })
+
+    return off
+  }
+
+  /**
+   * Remove a listener for an event type.
+   *
+   * @param type - The event type
+   * @param listener - The listener to remove
+   */
+  off<K extends keyof E>(type: K, listener: (event: E[K]) => void): void {
+    this.listeners.get(type)?.delete(listener)
+  }
+
+  /**
+   * Check if an event type has listeners, so that building its payload can
+   * be skipped otherwise.
+   *
+   * @param type - The event type
+   * @returns True if the event type has listeners, false otherwise
+   */
+  has(type: keyof E): boolean {
+    return (this.listeners.get(type)?.size ?? 0) > 0
+  }
+
+  /**
+   * Call the listeners of an event type.
+   *
+   * @param type - The event type
+   * @param event - The event payload
+   */
+  emit<K extends keyof E>(type: K, event: E[K]): void {
+    for (const listener of [...(this.listeners.get(type) || [])]) {
+      try {
+        ;(listener as (event: E[K]) => void)(event)
+      } catch {
+        // Listener errors must not fail the request
+      }
+    }
+  }
+}
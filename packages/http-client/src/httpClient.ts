@@ -1,7 +1,28 @@
+import { registerAdapter } from "./adapters/registry.js"
+import { extendTimings } from "./adapters/shared.js"
+import RequestDeduplicator from "./dedupe.js"
 import dispatchRequest from "./dispatchRequest.js"
+import EventEmitter from "./events.js"
 import HttpClientError from "./httpClientError.js"
-import InterceptorManager from "./interceptorManager.js"
+import InterceptorManager, { InterceptorContext } from "./interceptorManager.js"
+import mergeConfig, { freezeConfig } from "./mergeConfig.js"
+import runMiddleware from "./middleware.js"
+import paginate, { paginatePages } from "./paginate.js"
+import { registerParser } from "./parsers.js"
+import retryRequest from "./retry.js"
+import SafeHttpClient from "./safeHttpClient.js"
+import { registerSerializer } from "./serializers.js"
+import streamEvents from "./sse.js"
 import {
+  HttpClientAdapter,
+  HttpClientAdapterDefinition,
+  HttpClientAdapterName,
+  HttpClientErrorEvent,
+  HttpClientEventMap,
+  HttpClientMiddleware,
+  HttpClientParser,
+  HttpClientSerializer,
+  HttpClientTimings,
   RAWRequestConfig,
   RAWResponseConfig,
   RequestConfig,
@@ -9,15 +30,76 @@ import {
   ResolvedRAWRequestConfig,
   ResolvedRequestConfig,
   ResponseConfig,
+  ServerSentEvent,
 } from "./types.js"
-import { isRAWRequestConfig, isRAWResponseConfig } from "./utils.js"
+import {
+  isHttpClientError,
+  isRAWRequestConfig,
+  isRAWResponseConfig,
+} from "./utils.js"
+import validateResponse from "./validate.js"
+
+/**
+ * Build the event of a failed attempt.
+ *
+ * @param config - The request config of the attempt.
+ * @param error - The error of the attempt.
+ * @param start - Time the attempt was sent, from performance.now().
+ * @returns The error event.
+ */
+function createErrorEvent<ForceSignal extends boolean>(
+  config: ResolvedRAWRequestConfig<ForceSignal>,
+  error: unknown,
+  start: number
+): HttpClientErrorEvent {
+  const end = performance.now()
+
+  return {
+    config,
+    attempt: config.attempt ?? 1,
+    start,
+    error,
+    code: isHttpClientError(error) ? error.code : undefined,
+    timings: { start, end, duration: end - start },
+  }
+}
+
+/**
+ * Add client phases to the timings of a response config.
+ *
+ * @param responseConfig - The response config.
+ * @param phases - The client phases.
+ * @returns The response config with the phases in its timings.
+ */
+function addTimings<T, D>(
+  responseConfig: RAWResponseConfig<T, D>,
+  phases: Partial<HttpClientTimings>
+): RAWResponseConfig<T, D> {
+  return {
+    ...responseConfig,
+    timings: extendTimings(responseConfig.timings, phases),
+  }
+}
+
+/**
+ * Add client phases to the timings of an HttpClientError, if it has timings.
+ *
+ * @param error - The error.
+ * @param phases - The client phases.
+ */
+function addErrorTimings(error: unknown, phases: Partial<HttpClientTimings>) {
+  if (isHttpClientError(error) && error.timings) {
+    error.timings = extendTimings(error.timings, phases)
+  }
+}
 
-type RequestConfigArgs<
+export type RequestConfigArgs<
   ForceSignal extends boolean,
   D = unknown,
+  T = unknown,
 > = ForceSignal extends true
-  ? [config: RequestConfigForceSignal<D>]
-  : [config?: RequestConfig<D>]
+  ? [config: RequestConfigForceSignal<D, T>]
+  : [config?: RequestConfig<D, T>]
 
 /**
  * The HttpClient class is used to send HTTP requests.
@@ -70,23 +152,139 @@ export default class HttpClient<ForceSignal extends boolean = true> {
     response: InterceptorManager<RAWResponseConfig>
   }
 
+  /**
+   * The same requests, resolving to an HttpClientResult instead of throwing
+   * HttpClientErrors.
+   */
+  public readonly safe: SafeHttpClient<ForceSignal>
+
+  /**
+   * The lifecycle events of the requests sent over the network: request,
+   * response, error, retry, abort and timeout.
+   */
+  public readonly events = new EventEmitter<HttpClientEventMap>()
+
   private baseConfig: RAWRequestConfig
 
+  private deduplicator = new RequestDeduplicator()
+
+  private middleware: HttpClientMiddleware[] = []
+
   constructor(baseConfig?: RequestConfig) {
-    this.baseConfig = {
-      isRequestConfig: true,
-      ...baseConfig,
-    } as RAWRequestConfig
+    this.baseConfig = mergeConfig(
+      { isRequestConfig: true } as RAWRequestConfig,
+      baseConfig
+    )
 
     this.interceptors = {
       request: new InterceptorManager<ResolvedRAWRequestConfig<ForceSignal>>(),
       response: new InterceptorManager<RAWResponseConfig>(),
     }
+
+    this.safe = new SafeHttpClient<ForceSignal>(this)
+  }
+
+  /**
+   * Register an adapter so that it can be selected by name.
+   *
+   * @param name - The adapter name, declared on HttpClientAdapterNames
+   * @param definition - The adapter definition or adapter function
+   *
+   * @example
+   * declare module "@surge/http-client" {
+   *   interface HttpClientAdapterNames {
+   *     "node-http": true
+   *   }
+   * }
+   *
+   * HttpClient.registerAdapter("node-http", {
+   *   adapter: nodeHttpAdapter,
+   *   isAvailable: () => typeof process !== "undefined",
+   *   capabilities: { streamingUpload: true },
+   * })
+   *
+   * const httpClient = new HttpClient({ adapter: ["node-http", "fetch"] })
+   */
+  static registerAdapter(
+    name: HttpClientAdapterName,
+    definition: HttpClientAdapterDefinition | HttpClientAdapter<boolean>
+  ): void {
+    registerAdapter(name, definition)
+  }
+
+  /**
+   * Register a request body serializer for a media type, used when the
+   * Content-Type header of a request matches it.
+   *
+   * @param contentType - The media type, without parameters
+   * @param serializer - The serializer
+   *
+   * @example
+   * HttpClient.registerSerializer("text/csv", (data) =>
+   *   (data as string[][]).map((row) => row.join(",")).join("\n")
+   * )
+   *
+   * await httpClient.post("/import", rows, {
+   *   headers: { "Content-Type": "text/csv" },
+   * })
+   */
+  static registerSerializer(
+    contentType: string,
+    serializer: HttpClientSerializer
+  ): void {
+    registerSerializer(contentType, serializer)
+  }
+
+  /**
+   * Register a response body parser for a media type, used by the 'auto'
+   * response type when the Content-Type header of a response matches it.
+   *
+   * @param contentType - The media type without parameters, or a top-level
+   * type wildcard such as "text/*"
+   * @param parser - The parser
+   *
+   * @example
+   * HttpClient.registerParser("application/msgpack", async (response) =>
+   *   decode(new Uint8Array(await response.arrayBuffer()))
+   * )
+   *
+   * const response = await httpClient.get("/events", { responseType: "auto" })
+   */
+  static registerParser(contentType: string, parser: HttpClientParser): void {
+    registerParser(contentType, parser)
+  }
+
+  /**
+   * Add a middleware wrapping the dispatch of every request attempt, after
+   * the request interceptors and before the response interceptors.
+   *
+   * Middleware run in the order they are added, before the middleware of the
+   * request config.
+   *
+   * @param middleware - The middleware to add
+   * @returns The HttpClient instance
+   *
+   * @example
+   * httpClient.use(async (ctx, next) => {
+   *   const start = performance.now()
+   *   try {
+   *     await next()
+   *   } finally {
+   *     console.log(ctx.config.url, performance.now() - start)
+   *   }
+   * })
+   */
+  use(middleware: HttpClientMiddleware): this {
+    this.middleware.push(middleware)
+    return this
   }
 
   /**
    * Merge the base config with the provided config.
    *
+   * Headers merge case-insensitively, a null header removes it, search params
+   * concatenate and nested objects deep-merge.
+   *
    * @param config - The RequestConfig to merge with the base config
    *
    * @example
@@ -97,152 +295,442 @@ export default class HttpClient<ForceSignal extends boolean = true> {
    * })
    */
   mergeBaseConfig(config: RequestConfig) {
-    this.baseConfig = { ...this.baseConfig, ...config }
+    this.baseConfig = mergeConfig(this.baseConfig, config)
   }
 
   /**
    * Get the base config.
    *
-   * @returns The base config
+   * @returns A deeply frozen snapshot of the base config, with headers
+   * normalized to a record keyed by lowercase name and search params to a
+   * record of value arrays
    */
-  public getBaseConfig(): ResolvedRequestConfig<ForceSignal> {
+  public getBaseConfig(): Readonly<ResolvedRequestConfig<ForceSignal>> {
     const { isRequestConfig: _, ...config } = this.baseConfig
-    return config as ResolvedRequestConfig<ForceSignal>
+    return freezeConfig(config) as ResolvedRequestConfig<ForceSignal>
   }
 
   /**
    * Send an HTTP request.
    *
-   * @template T - The type of the response data
+   * @template T - The type of the response data, inferred from the schema
    * @template D - The type of the request data
    * @param configOrUrl - The URL or RequestConfig to use for the request
    * @param config - The RequestConfig to use for the request
    * @returns The ResponseConfig for the request
    */
   request<T = unknown, D = unknown>(
-    ...args: RequestConfigArgs<ForceSignal, D>
+    ...args: RequestConfigArgs<ForceSignal, D, T>
   ): Promise<ResponseConfig<T, D>> {
     // Process final config
-    const finalConfig: ResolvedRAWRequestConfig<ForceSignal, D> = {
-      ...this.baseConfig,
-      ...args[0],
-    } as ResolvedRAWRequestConfig<ForceSignal, D>
+    const finalConfig = mergeConfig(
+      this.baseConfig,
+      args[0]
+    ) as ResolvedRAWRequestConfig<ForceSignal, D>
 
-    // Execute request interceptors, dispatchRequest, and response interceptors via promise chain
-    let promise: Promise<
-      | ResolvedRAWRequestConfig<ForceSignal, D>
-      | RAWResponseConfig<T, D>
-      | ResponseConfig<T, D>
-    > = Promise.resolve(finalConfig)
+    return this.sendRequest<T, D>(finalConfig)
+  }
 
-    // Run request interceptors
-    this.interceptors.request.forEach((interceptor) => {
+  /**
+   * Send a final request config, resolving with the ResponseConfig.
+   *
+   * @template T - The type of the response data, inferred from the schema
+   * @template D - The type of the request data
+   * @param finalConfig - The RequestConfig merged with the base config
+   * @returns The ResponseConfig for the request
+   */
+  private sendRequest<T = unknown, D = unknown>(
+    finalConfig: ResolvedRAWRequestConfig<ForceSignal, D>
+  ): Promise<ResponseConfig<T, D>> {
+    return this.send<T, D>(finalConfig).then((responseConfig) => {
+      const { isResponseConfig: _, ...config } = responseConfig
+      return config as ResponseConfig<T, D>
+    })
+  }
+
+  /**
+   * Send a final request config through the interceptors, retries and
+   * dispatchRequest.
+   *
+   * @template T - The type of the response data, inferred from the schema
+   * @template D - The type of the request data
+   * @param finalConfig - The RequestConfig merged with the base config
+   * @returns The RAWResponseConfig for the request
+   */
+  private send<T = unknown, D = unknown>(
+    finalConfig: ResolvedRAWRequestConfig<ForceSignal, D>
+  ): Promise<RAWResponseConfig<T, D>> {
+    const context = this.createContext(finalConfig)
+    const requestStart = performance.now()
+
+    // Run request interceptors and dispatchRequest for every attempt, then
+    // validate the response data against the schema
+    let attemptStart = 0
+    let promise: Promise<RAWResponseConfig<T, D>> = retryRequest(
+      finalConfig,
+      (attemptConfig) => {
+        attemptStart = performance.now()
+        return this.dispatchAttempt<T, D>(attemptConfig, context)
+      },
+      (error, attemptConfig, delay) => {
+        if (this.events.has("retry")) {
+          this.events.emit("retry", {
+            ...createErrorEvent(attemptConfig, error, attemptStart),
+            delay,
+          })
+        }
+      }
+    ).then((responseConfig) => validateResponse(responseConfig))
+
+    // Run response interceptors
+    this.interceptors.response.forEach((interceptor) => {
       if (!interceptor) {
         return
       }
 
       const { onFulfilled, onRejected, runWhen } = interceptor
 
-      // check if onFulfilled is defined
-      if (!onFulfilled) {
+      // check if a handler is defined
+      if (!onFulfilled && !onRejected) {
         return
       }
 
       // run onFulfilled
       promise = promise.then(
-        (requestConfig) => {
-          // check if requestConfig is a RequestConfig
-          if (!isRAWRequestConfig<ForceSignal>(requestConfig)) {
+        (responseConfig) => {
+          // check if responseConfig is a ResponseConfig
+          if (!isRAWResponseConfig(responseConfig)) {
             throw new HttpClientError(
-              "Unexpected RequestConfig in request interceptor",
+              "Unexpected ResponseConfig in response interceptor",
               HttpClientError.ERR_BAD_CONFIG,
               finalConfig
             )
           }
 
           // check if runWhen is not defined or returns true
-          if (!runWhen || !runWhen(requestConfig)) {
-            return requestConfig
+          if (!onFulfilled || (runWhen && !runWhen(responseConfig))) {
+            return responseConfig
           }
 
-          return onFulfilled(requestConfig) as ResolvedRAWRequestConfig<
-            ForceSignal,
-            D
-          >
+          return onFulfilled(responseConfig, context)
         },
-        (error) => {
-          throw onRejected ? onRejected(error) : error
+        async (error) => {
+          if (!onRejected) {
+            throw error
+          }
+
+          // recover with a response or by replaying a request config
+          const recovery = await onRejected(error, context)
+          if (isRAWResponseConfig(recovery)) {
+            return recovery
+          }
+          if (isRAWRequestConfig(recovery)) {
+            return context.request(recovery)
+          }
+
+          throw recovery || error
         }
-      )
+      ) as Promise<RAWResponseConfig<T, D>>
     })
 
-    // Execute dispatchRequest
-    promise = promise.then((requestConfig) => {
-      if (!isRAWRequestConfig<ForceSignal>(requestConfig)) {
-        throw new HttpClientError(
-          "Unexpected RequestConfig before dispatchRequest",
-          HttpClientError.ERR_BAD_CONFIG,
-          finalConfig
-        )
+    return promise.then(
+      (responseConfig) => {
+        if (!isRAWResponseConfig(responseConfig)) {
+          throw new HttpClientError(
+            "Unexpected ResponseConfig before dispatchRequest",
+            HttpClientError.ERR_BAD_CONFIG,
+            finalConfig
+          )
+        }
+
+        return addTimings(responseConfig, {
+          requestStart,
+          responseEnd: performance.now(),
+        })
+      },
+      (error) => {
+        addErrorTimings(error, { requestStart, responseEnd: performance.now() })
+        throw error
       }
+    )
+  }
 
-      // dispatchRequest
-      return dispatchRequest<ForceSignal, T, D>(requestConfig)
-    })
+  /**
+   * Emit the lifecycle events around the network dispatch of an attempt.
+   *
+   * @param config - The request config of the attempt
+   * @param dispatch - Function dispatching the request over the network
+   * @returns The RAWResponseConfig for the request
+   */
+  private async observe<T, D>(
+    config: ResolvedRAWRequestConfig<ForceSignal, D>,
+    dispatch: () => Promise<RAWResponseConfig<T, D>>
+  ): Promise<RAWResponseConfig<T, D>> {
+    const start = performance.now()
+    const attempt = config.attempt ?? 1
+    if (this.events.has("request")) {
+      this.events.emit("request", { config, attempt, start })
+    }
 
-    // Run response interceptors
-    this.interceptors.response.forEach((interceptor) => {
+    try {
+      const response = await dispatch()
+      if (this.events.has("response")) {
+        this.events.emit("response", {
+          config,
+          attempt,
+          start,
+          response,
+          timings: response.timings,
+        })
+      }
+      return response
+    } catch (error) {
+      const event = createErrorEvent(config, error, start)
+
+      // Errors without response are timed from the network dispatch
+      if (isHttpClientError(error) && !error.timings) {
+        error.timings = event.timings
+      }
+
+      this.events.emit("error", event)
+
+      if (event.code === HttpClientError.ERR_CANCELED) {
+        this.events.emit("abort", event)
+      } else if (event.code === HttpClientError.ERR_TIMEDOUT) {
+        this.events.emit("timeout", event)
+      }
+
+      throw error
+    }
+  }
+
+  /**
+   * Create the context passed to the interceptors of a request.
+   *
+   * @param finalConfig - The RequestConfig merged with the base config
+   * @returns The InterceptorContext
+   */
+  private createContext(
+    finalConfig: ResolvedRAWRequestConfig<ForceSignal>
+  ): InterceptorContext {
+    return {
+      requestConfig: finalConfig,
+      request: async (config) => {
+        // Protect against interceptors replaying requests endlessly
+        const replays =
+          Math.max(config.replays ?? 0, finalConfig.replays ?? 0) + 1
+        if (replays > (config.maxReplays ?? 3)) {
+          throw new HttpClientError(
+            "Maximum number of replays exceeded",
+            HttpClientError.ERR_BAD_CONFIG,
+            config
+          )
+        }
+
+        return this.send({
+          ...config,
+          replays,
+        } as ResolvedRAWRequestConfig<ForceSignal>)
+      },
+    }
+  }
+
+  /**
+   * Run the request interceptors and dispatch a single attempt.
+   *
+   * @template T - The type of the response data, inferred from the schema
+   * @template D - The type of the request data
+   * @param attemptConfig - The RequestConfig of the attempt
+   * @param context - The InterceptorContext of the request
+   * @returns The RAWResponseConfig of the attempt
+   */
+  private dispatchAttempt<T = unknown, D = unknown>(
+    attemptConfig: ResolvedRAWRequestConfig<ForceSignal, D>,
+    context: InterceptorContext
+  ): Promise<RAWResponseConfig<T, D>> {
+    // Execute request interceptors, synchronously until one is asynchronous,
+    // then via promise chain
+    let config:
+      | ResolvedRAWRequestConfig<ForceSignal, D>
+      | RAWResponseConfig<T, D> = attemptConfig
+    let promise:
+      | Promise<
+          ResolvedRAWRequestConfig<ForceSignal, D> | RAWResponseConfig<T, D>
+        >
+      | undefined
+
+    // Run request interceptors
+    this.interceptors.request.forEach((interceptor) => {
       if (!interceptor) {
         return
       }
 
-      const { onFulfilled, onRejected } = interceptor
+      const { onFulfilled, onRejected, runWhen, synchronous } = interceptor
 
-      // check if onFulfilled is defined
-      if (!onFulfilled) {
+      // check if a handler is defined
+      if (!onFulfilled && !onRejected) {
         return
       }
 
-      // run onFulfilled
-      promise = promise.then(
-        (responseConfig) => {
-          // check if responseConfig is a ResponseConfig
-          if (!isRAWResponseConfig(responseConfig)) {
-            throw new HttpClientError(
-              "Unexpected ResponseConfig in response interceptor",
-              HttpClientError.ERR_BAD_CONFIG,
-              finalConfig
-            )
-          }
+      const fulfilled = (
+        requestConfig:
+          | ResolvedRAWRequestConfig<ForceSignal, D>
+          | RAWResponseConfig<T, D>
+      ) => {
+        // a rejection handler recovered with a response, skip the rest
+        if (isRAWResponseConfig(requestConfig)) {
+          return requestConfig
+        }
 
-          return onFulfilled(responseConfig)
-        },
-        (error) => {
-          throw onRejected ? onRejected(error) : error
+        // check if requestConfig is a RequestConfig
+        if (!isRAWRequestConfig<ForceSignal>(requestConfig)) {
+          throw new HttpClientError(
+            "Unexpected RequestConfig in request interceptor",
+            HttpClientError.ERR_BAD_CONFIG,
+            attemptConfig
+          )
         }
-      ) as Promise<RAWResponseConfig<T, D>>
+
+        // check if runWhen is not defined or returns true
+        if (!onFulfilled || (runWhen && !runWhen(requestConfig))) {
+          return requestConfig
+        }
+
+        return onFulfilled(requestConfig, context) as
+          | ResolvedRAWRequestConfig<ForceSignal, D>
+          | Promise<ResolvedRAWRequestConfig<ForceSignal, D>>
+      }
+
+      const rejected = async (error: unknown) => {
+        if (!onRejected) {
+          throw error
+        }
+
+        // recover with a request config or a response
+        const recovery = await onRejected(error, context)
+        if (isRAWRequestConfig<ForceSignal>(recovery)) {
+          return recovery as ResolvedRAWRequestConfig<ForceSignal, D>
+        }
+        if (isRAWResponseConfig(recovery)) {
+          return recovery as RAWResponseConfig<T, D>
+        }
+
+        throw recovery || error
+      }
+
+      // run onFulfilled in the same tick while the chain is synchronous
+      if (!promise && synchronous) {
+        try {
+          const result = fulfilled(config)
+          if (result instanceof Promise) {
+            promise = result
+          } else {
+            config = result
+          }
+        } catch (error) {
+          promise = Promise.reject(error)
+        }
+        return
+      }
+
+      promise = (promise || Promise.resolve(config)).then(fulfilled, rejected)
     })
 
-    promise = promise.then((responseConfig) => {
-      if (!isRAWResponseConfig(responseConfig)) {
+    // Execute dispatchRequest
+    const dispatch = (
+      requestConfig:
+        | ResolvedRAWRequestConfig<ForceSignal, D>
+        | RAWResponseConfig<T, D>
+    ): Promise<RAWResponseConfig<T, D>> => {
+      if (isRAWResponseConfig(requestConfig)) {
+        return Promise.resolve(requestConfig)
+      }
+
+      if (!isRAWRequestConfig<ForceSignal>(requestConfig)) {
         throw new HttpClientError(
-          "Unexpected ResponseConfig before dispatchRequest",
+          "Unexpected RequestConfig before dispatchRequest",
           HttpClientError.ERR_BAD_CONFIG,
-          finalConfig
+          attemptConfig
         )
       }
 
-      const { isResponseConfig: _, ...config } = responseConfig
-      return config as ResponseConfig<T, D>
-    })
+      const phases = {
+        interceptorsEnd: performance.now(),
+        attempt: requestConfig.attempt ?? 1,
+      }
+
+      // dispatchRequest, queued while over the rate or concurrency limits
+      const sendLimited = (config: ResolvedRAWRequestConfig<ForceSignal, D>) =>
+        config.rateLimiter
+          ? config.rateLimiter.dispatch(
+              config,
+              dispatchRequest<ForceSignal, T, D>
+            )
+          : dispatchRequest<ForceSignal, T, D>(config)
 
-    return promise as Promise<ResponseConfig<T, D>>
+      // Shared with identical in-flight requests and failing fast while the
+      // circuit of the request is open
+      const send = (config: ResolvedRAWRequestConfig<ForceSignal, D>) =>
+        this.observe(config, () =>
+          this.deduplicator.dispatch(config, (dedupedConfig) =>
+            dedupedConfig.circuitBreaker
+              ? dedupedConfig.circuitBreaker.dispatch(
+                  dedupedConfig,
+                  sendLimited
+                )
+              : sendLimited(dedupedConfig)
+          )
+        )
+
+      // Serve and store responses through the cache when one is configured
+      const sendCached = (config: ResolvedRAWRequestConfig<ForceSignal, D>) =>
+        config.responseCache
+          ? config.responseCache.dispatch(config, send)
+          : send(config)
+
+      // Authorize the request, refreshing the token when it is rejected
+      const sendAuthorized = (
+        config: ResolvedRAWRequestConfig<ForceSignal, D>
+      ) =>
+        config.auth
+          ? config.auth.dispatch(config, sendCached)
+          : sendCached(config)
+
+      // Run the client and request middleware around the dispatch
+      const middleware = [
+        ...this.middleware,
+        ...(requestConfig.middleware || []),
+      ]
+
+      const response =
+        middleware.length > 0
+          ? runMiddleware(middleware, requestConfig, sendAuthorized)
+          : sendAuthorized(requestConfig)
+
+      return response.then(
+        (responseConfig) => addTimings(responseConfig, phases),
+        (error) => {
+          addErrorTimings(error, phases)
+          throw error
+        }
+      )
+    }
+
+    if (promise) {
+      return promise.then(dispatch)
+    }
+
+    try {
+      return dispatch(config)
+    } catch (error) {
+      return Promise.reject(error)
+    }
   }
 
   /**
    * Get a resource.
    *
-   * @template T - The type of the response data
+   * @template T - The type of the response data, inferred from the schema
    * @template D - The type of the request data
    * @param url - The URL to get the resource from
    * @param config - The RequestConfig to use for the request
@@ -250,7 +738,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
    */
   get<T = unknown, D = unknown>(
     url: string | URL,
-    ...args: RequestConfigArgs<ForceSignal, D>
+    ...args: RequestConfigArgs<ForceSignal, D, T>
   ): Promise<ResponseConfig<T, D>> {
     return this.request<T, D>({
       method: "GET",
@@ -263,7 +751,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
   /**
    * Send a POST request.
    *
-   * @template T - The type of the response data
+   * @template T - The type of the response data, inferred from the schema
    * @template D - The type of the request data
    * @param url - The URL to send the request to
    * @param data - The data to send with the request
@@ -273,7 +761,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
   post<T = unknown, D = unknown>(
     url: string | URL,
     data: RequestConfig<D>["data"] | undefined,
-    ...args: RequestConfigArgs<ForceSignal, D>
+    ...args: RequestConfigArgs<ForceSignal, D, T>
   ): Promise<ResponseConfig<T, D>> {
     return this.request<T, D>({
       method: "POST",
@@ -287,7 +775,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
   /**
    * Send a PUT request.
    *
-   * @template T - The type of the response data
+   * @template T - The type of the response data, inferred from the schema
    * @template D - The type of the request data
    * @param url - The URL to send the request to
    * @param data - The data to send with the request
@@ -297,7 +785,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
   put<T = unknown, D = unknown>(
     url: string | URL,
     data: RequestConfig<D>["data"] | undefined,
-    ...args: RequestConfigArgs<ForceSignal, D>
+    ...args: RequestConfigArgs<ForceSignal, D, T>
   ): Promise<ResponseConfig<T, D>> {
     return this.request<T, D>({
       method: "PUT",
@@ -311,7 +799,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
   /**
    * Send a PATCH request.
    *
-   * @template T - The type of the response data
+   * @template T - The type of the response data, inferred from the schema
    * @template D - The type of the request data
    * @param url - The URL to send the request to
    * @param data - The data to send with the request
@@ -321,7 +809,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
   patch<T = unknown, D = unknown>(
     url: string | URL,
     data: RequestConfig<D>["data"] | undefined,
-    ...args: RequestConfigArgs<ForceSignal, D>
+    ...args: RequestConfigArgs<ForceSignal, D, T>
   ): Promise<ResponseConfig<T, D>> {
     return this.request<T, D>({
       method: "PATCH",
@@ -335,7 +823,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
   /**
    * Send a DELETE request.
    *
-   * @template T - The type of the response data
+   * @template T - The type of the response data, inferred from the schema
    * @template D - The type of the request data
    * @param url - The URL to send the request to
    * @param config - The RequestConfig to use for the request
@@ -343,7 +831,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
    */
   delete<T = unknown, D = unknown>(
     url: string | URL,
-    ...args: RequestConfigArgs<ForceSignal, D>
+    ...args: RequestConfigArgs<ForceSignal, D, T>
   ): Promise<ResponseConfig<T, D>> {
     return this.request<T, D>({
       method: "DELETE",
@@ -356,7 +844,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
   /**
    * Send a HEAD request.
    *
-   * @template T - The type of the response data
+   * @template T - The type of the response data, inferred from the schema
    * @template D - The type of the request data
    * @param url - The URL to send the request to
    * @param config - The RequestConfig to use for the request
@@ -364,7 +852,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
    */
   head<T = unknown, D = unknown>(
     url: string | URL,
-    ...args: RequestConfigArgs<ForceSignal, D>
+    ...args: RequestConfigArgs<ForceSignal, D, T>
   ): Promise<ResponseConfig<T, D>> {
     return this.request<T, D>({
       method: "HEAD",
@@ -377,7 +865,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
   /**
    * Send a OPTIONS request.
    *
-   * @template T - The type of the response data
+   * @template T - The type of the response data, inferred from the schema
    * @template D - The type of the request data
    * @param url - The URL to send the request to
    * @param config - The RequestConfig to use for the request
@@ -385,7 +873,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
    */
   options<T = unknown, D = unknown>(
     url: string | URL,
-    ...args: RequestConfigArgs<ForceSignal, D>
+    ...args: RequestConfigArgs<ForceSignal, D, T>
   ): Promise<ResponseConfig<T, D>> {
     return this.request<T, D>({
       method: "OPTIONS",
@@ -398,7 +886,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
   /**
    * Send a PURGE request.
    *
-   * @template T - The type of the response data
+   * @template T - The type of the response data, inferred from the schema
    * @template D - The type of the request data
    * @param url - The URL to send the request to
    * @param config - The RequestConfig to use for the request
@@ -406,7 +894,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
    */
   purge<T = unknown, D = unknown>(
     url: string | URL,
-    ...args: RequestConfigArgs<ForceSignal, D>
+    ...args: RequestConfigArgs<ForceSignal, D, T>
   ): Promise<ResponseConfig<T, D>> {
     return this.request<T, D>({
       method: "PURGE",
@@ -419,7 +907,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
   /**
    * Send a LINK request.
    *
-   * @template T - The type of the response data
+   * @template T - The type of the response data, inferred from the schema
    * @template D - The type of the request data
    * @param url - The URL to send the request to
    * @param config - The RequestConfig to use for the request
@@ -427,7 +915,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
    */
   link<T = unknown, D = unknown>(
     url: string | URL,
-    ...args: RequestConfigArgs<ForceSignal, D>
+    ...args: RequestConfigArgs<ForceSignal, D, T>
   ): Promise<ResponseConfig<T, D>> {
     return this.request<T, D>({
       method: "LINK",
@@ -440,7 +928,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
   /**
    * Send a UNLINK request.
    *
-   * @template T - The type of the response data
+   * @template T - The type of the response data, inferred from the schema
    * @template D - The type of the request data
    * @param url - The URL to send the request to
    * @param config - The RequestConfig to use for the request
@@ -448,7 +936,7 @@ export default class HttpClient<ForceSignal extends boolean = true> {
    */
   unlink<T = unknown, D = unknown>(
     url: string | URL,
-    ...args: RequestConfigArgs<ForceSignal, D>
+    ...args: RequestConfigArgs<ForceSignal, D, T>
   ): Promise<ResponseConfig<T, D>> {
     return this.request<T, D>({
       method: "UNLINK",
@@ -457,4 +945,118 @@ export default class HttpClient<ForceSignal extends boolean = true> {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } as any)
   }
+
+  /**
+   * Stream the server-sent events of a resource.
+   *
+   * Unlike EventSource, any method and body can be sent. Every connection and
+   * reconnection is a request sent through the interceptors and middleware,
+   * so that auth headers stay fresh, and reconnections send the Last-Event-ID
+   * header. Aborting the signal or breaking out of the iteration closes the
+   * stream.
+   *
+   * @template D - The type of the request data
+   * @param url - The URL of the event stream
+   * @param config - The RequestConfig to use for the connections
+   * @returns The async iterable of events
+   *
+   * @example
+   * ```typescript
+   * for await (const { event, data } of httpClient.sse("/chat", {
+   *   method: "POST",
+   *   data: { prompt: "Hello" },
+   *   reconnect: { delay: 1000, limit: 5 },
+   * })) {
+   *   console.log(event, JSON.parse(data))
+   * }
+   * ```
+   */
+  sse<D = unknown>(
+    url: string | URL,
+    ...args: RequestConfigArgs<ForceSignal, D>
+  ): AsyncGenerator<ServerSentEvent, void, undefined> {
+    const config = args[0] || {}
+
+    return streamEvents(
+      (lastEventId) =>
+        this.request<unknown, D>(
+          mergeConfig(config, {
+            url,
+            responseType: "stream",
+            headers: {
+              Accept: "text/event-stream",
+              "Cache-Control": "no-cache",
+              "Last-Event-ID": lastEventId,
+            },
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          }) as any
+        ),
+      mergeConfig(this.baseConfig, config)
+    )
+  }
+
+  /**
+   * Iterate over the items of a paginated resource.
+   *
+   * Pages are requested one at a time as the items are consumed, each one
+   * through the interceptors and middleware. The next page is found by the
+   * strategy of the pagination config, and aborting the signal rejects the
+   * iteration.
+   *
+   * @template T - The type of the items
+   * @template D - The type of the request data
+   * @param url - The URL of the first page
+   * @param config - The RequestConfig to use for the pages
+   * @returns The async iterable of items
+   *
+   * @example
+   * ```typescript
+   * for await (const user of httpClient.paginate<User>("/users", {
+   *   searchParams: { limit: 100 },
+   *   pagination: { strategy: "cursor", cursor: "meta.next", maxItems: 1000 },
+   * })) {
+   *   console.log(user.name)
+   * }
+   * ```
+   */
+  paginate<T = unknown, D = unknown>(
+    url: string | URL,
+    ...args: RequestConfigArgs<ForceSignal, D>
+  ): AsyncGenerator<T, void, undefined> {
+    const finalConfig = mergeConfig(this.baseConfig, {
+      method: "GET",
+      url,
+      ...(args[0] || {}),
+    }) as ResolvedRAWRequestConfig<ForceSignal>
+
+    return paginate(
+      (config) => this.sendRequest(config),
+      finalConfig
+    ) as AsyncGenerator<T, void, undefined>
+  }
+
+  /**
+   * Iterate over the pages of a paginated resource.
+   *
+   * @template T - The type of the page data, inferred from the schema
+   * @template D - The type of the request data
+   * @param url - The URL of the first page
+   * @param config - The RequestConfig to use for the pages
+   * @returns The async iterable of page responses
+   */
+  pages<T = unknown, D = unknown>(
+    url: string | URL,
+    ...args: RequestConfigArgs<ForceSignal, D, T>
+  ): AsyncGenerator<ResponseConfig<T, D>, void, undefined> {
+    const finalConfig = mergeConfig(this.baseConfig, {
+      method: "GET",
+      url,
+      ...(args[0] || {}),
+    }) as ResolvedRAWRequestConfig<ForceSignal>
+
+    return paginatePages(
+      (config) => this.sendRequest(config),
+      finalConfig
+    ) as AsyncGenerator<ResponseConfig<T, D>, void, undefined>
+  }
 }
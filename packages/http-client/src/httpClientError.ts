@@ -1,7 +1,9 @@
 import {
+  HttpClientTimings,
   RAWRequestConfig,
   RAWRequestConfigForceSignal,
   RAWResponseConfig,
+  StandardSchemaIssue,
 } from "./types.js"
 
 /**
@@ -16,24 +18,32 @@ export default class HttpClientError extends Error {
   static readonly ERR_BAD_REQUEST = "HTTPCLIENT_ERR_BAD_REQUEST"
   static readonly ERR_CANCELED = "HTTPCLIENT_ERR_CANCELED"
   static readonly ERR_INVALID_URL = "HTTPCLIENT_ERR_INVALID_URL"
+  static readonly ERR_VALIDATION = "HTTPCLIENT_ERR_VALIDATION"
+  static readonly ERR_AUTH = "HTTPCLIENT_ERR_AUTH"
+  static readonly ERR_CIRCUIT_OPEN = "HTTPCLIENT_ERR_CIRCUIT_OPEN"
 
   public readonly isHttpClientError: boolean = true
   public readonly code?: unknown
   public readonly requestConfig?: RAWRequestConfig | RAWRequestConfigForceSignal
   public readonly responseConfig?: RAWResponseConfig
   public readonly status: number
+  public readonly issues?: ReadonlyArray<StandardSchemaIssue>
+  public timings?: HttpClientTimings
 
   constructor(
     message: string,
     code?: string,
     requestConfig?: RAWRequestConfig | RAWRequestConfigForceSignal,
-    responseConfig?: RAWResponseConfig
+    responseConfig?: RAWResponseConfig,
+    issues?: ReadonlyArray<StandardSchemaIssue>
   ) {
     super(message)
     this.name = "HttpClientError"
     this.code = code
     this.requestConfig = requestConfig
     this.responseConfig = responseConfig
+    this.issues = issues
+    this.timings = responseConfig?.timings
     if (this.responseConfig) {
       this.status = this.responseConfig.status
     } else {
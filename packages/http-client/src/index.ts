@@ -1,6 +1,34 @@
+import MockAdapter from "./adapters/mock.js"
+import MemoryCacheStorage from "./cache/memoryStorage.js"
+import ResponseCache from "./cache/responseCache.js"
+import TokenAuth from "./auth.js"
+import CircuitBreaker from "./circuitBreaker.js"
 import HttpClient from "./httpClient.js"
 import HttpClientError from "./httpClientError.js"
+import createLoggerMiddleware from "./logger.js"
+import RateLimiter from "./rateLimiter.js"
+import SafeHttpClient from "./safeHttpClient.js"
+import createTracingMiddleware from "./tracing.js"
 
-export { HttpClient as default, HttpClientError }
+export {
+  CircuitBreaker,
+  createLoggerMiddleware,
+  createTracingMiddleware,
+  HttpClient as default,
+  HttpClientError,
+  MemoryCacheStorage,
+  MockAdapter,
+  RateLimiter,
+  ResponseCache,
+  SafeHttpClient,
+  TokenAuth,
+}
+export type { MockMatcher, MockReply, MockResponse } from "./adapters/mock.js"
+export type { default as EventEmitter } from "./events.js"
+export type {
+  InterceptorContext,
+  InterceptorOptions,
+  InterceptorRecovery,
+} from "./interceptorManager.js"
 export * from "./types.js"
 export * from "./utils.js"
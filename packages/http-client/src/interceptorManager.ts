@@ -1,58 +1,148 @@
+import {
+  RAWRequestConfig,
+  RAWRequestConfigForceSignal,
+  RAWResponseConfig,
+} from "./types.js"
+
+/**
+ * The context passed to interceptors.
+ */
+export type InterceptorContext = {
+  // Request config the interceptors run for, before the request interceptors
+  requestConfig: RAWRequestConfig | RAWRequestConfigForceSignal
+
+  // Send a request config through the client again, failing with
+  // ERR_BAD_CONFIG once it was replayed more than maxReplays times
+  request: (
+    config: RAWRequestConfig | RAWRequestConfigForceSignal
+  ) => Promise<RAWResponseConfig>
+}
+
+/**
+ * The value an interceptor rejection handler may return: a response config
+ * recovers from the error, a request config is re-dispatched (or continues
+ * the request interceptors), an Error is thrown, and undefined rethrows the
+ * original error.
+ */
+export type InterceptorRecovery =
+  | RAWResponseConfig
+  | RAWRequestConfig
+  | RAWRequestConfigForceSignal
+  | Error
+  | undefined
+  | void
+
 // Generic interceptor types
-export type InterceptorFulfilled<T> = (config: T) => T | Promise<T>
-export type InterceptorRejected = (error: unknown) => Error
+export type InterceptorFulfilled<T> = (
+  config: T,
+  context: InterceptorContext
+) => T | Promise<T>
+export type InterceptorRejected = (
+  error: unknown,
+  context: InterceptorContext
+) => InterceptorRecovery | Promise<InterceptorRecovery>
 export type InterceptorRunWhen<T> = (config: T) => boolean
 
+// Generic interceptor options
+export type InterceptorOptions<T> = {
+  // Name used to eject the interceptor or to position others around it
+  name?: string
+
+  // Interceptors with a higher priority run first, defaults to 0
+  priority?: number
+
+  // Name of the interceptor to run right before, overrides the priority
+  before?: string
+
+  // Name of the interceptor to run right after, overrides the priority
+  after?: string
+
+  // Whether the request interceptor is synchronous, so that the request stays
+  // in the same tick while every interceptor before it is synchronous,
+  // defaults to false
+  synchronous?: boolean
+
+  // Condition to run onFulfilled, defaults to always
+  runWhen?: InterceptorRunWhen<T>
+}
+
 // Generic interceptor interface
-export interface Interceptor<T> {
+export interface Interceptor<T> extends InterceptorOptions<T> {
+  id: number
   onFulfilled?: InterceptorFulfilled<T>
   onRejected?: InterceptorRejected
-  runWhen?: InterceptorRunWhen<T>
 }
 
 /**
  * Generic interceptor manager for handling request and response interceptors.
  *
+ * Interceptors run by descending priority, then in registration order, unless
+ * they are positioned before or after a named interceptor.
+ *
  * @template T - The configuration type (RAWRequestConfig or RAWResponseConfig)
+ *
+ * @example
+ * ```typescript
+ * httpClient.interceptors.request.use(addAuthHeader, undefined, {
+ *   name: "auth",
+ *   synchronous: true,
+ * })
+ * httpClient.interceptors.request.use(signRequest, undefined, {
+ *   name: "sign",
+ *   after: "auth",
+ * })
+ * httpClient.interceptors.request.use(trace, undefined, { priority: 100 })
+ *
+ * httpClient.interceptors.request.eject("sign")
+ * ```
  */
 export default class InterceptorManager<T> {
-  interceptors: (Interceptor<T> | null)[] = []
+  interceptors: Interceptor<T>[] = []
+
+  private registered: Interceptor<T>[] = []
+
+  private nextId = 0
 
   /**
    * Add an interceptor to the chain.
    *
    * @param onFulfilled - Function to call when the interceptor is fulfilled
    * @param onRejected - Function to call when the interceptor is rejected
-   * @param runWhen - Optional condition function to determine if the interceptor should run
+   * @param options - The interceptor options, or a runWhen condition function
    * @returns The ID of the added interceptor
    */
   use(
     onFulfilled?: InterceptorFulfilled<T>,
     onRejected?: InterceptorRejected,
-    runWhen?: InterceptorRunWhen<T>
+    options?: InterceptorOptions<T> | InterceptorRunWhen<T>
   ): number {
-    this.interceptors.push({ onFulfilled, onRejected, runWhen })
-    return this.interceptors.length - 1
+    const id = this.nextId++
+    const interceptorOptions =
+      typeof options === "function" ? { runWhen: options } : options
+
+    this.registered.push({ ...interceptorOptions, id, onFulfilled, onRejected })
+    this.sort()
+
+    return id
   }
 
   /**
-   * Remove an interceptor from the chain by ID.
+   * Remove an interceptor from the chain by ID or name.
    *
-   * @param id - The ID of the interceptor to remove
+   * @param idOrName - The ID or name of the interceptor to remove
    */
-  eject(id: number): void {
-    if (this.interceptors[id]) {
-      this.interceptors[id] = null
-    }
+  eject(idOrName: number | string): void {
+    const key = typeof idOrName === "number" ? "id" : "name"
+    this.registered = this.registered.filter((i) => i[key] !== idOrName)
+    this.sort()
   }
 
   /**
    * Clear all interceptors.
    */
   clear(): void {
-    if (this.interceptors) {
-      this.interceptors = []
-    }
+    this.registered = []
+    this.interceptors = []
   }
 
   /**
@@ -63,4 +153,37 @@ export default class InterceptorManager<T> {
   forEach(fn: (interceptor: Interceptor<T> | null) => void) {
     this.interceptors.forEach((h) => fn(h))
   }
+
+  /**
+   * Order the registered interceptors by priority, then move the positioned
+   * interceptors next to the interceptor they name.
+   */
+  private sort(): void {
+    // Array.prototype.sort is stable, so equal priorities keep their order
+    const ordered = [...this.registered].sort(
+      (a, b) => (b.priority ?? 0) - (a.priority ?? 0)
+    )
+
+    for (const interceptor of this.registered) {
+      const target = interceptor.before ?? interceptor.after
+      if (target === undefined) {
+        continue
+      }
+
+      const targetIndex = ordered.findIndex((i) => i.name === target)
+      if (targetIndex === -1 || ordered[targetIndex] === interceptor) {
+        continue
+      }
+
+      ordered.splice(ordered.indexOf(interceptor), 1)
+      const index = ordered.findIndex((i) => i.name === target)
+      ordered.splice(
+        interceptor.before !== undefined ? index : index + 1,
+        0,
+        interceptor
+      )
+    }
+
+    this.interceptors = ordered
+  }
 }
@@ -0,0 +1,387 @@
+import { buildRequestURL } from "./adapters/shared.js"
+import { isPlainObject } from "./mergeConfig.js"
+import {
+  HttpClientMiddleware,
+  LoggerOptions,
+  LogRecord,
+  ResolvedRAWRequestConfig,
+} from "./types.js"
+import { isHttpClientError } from "./utils.js"
+
+const LEVELS = ["debug", "info", "warn", "error", "silent"]
+
+const DEFAULT_REDACTED_HEADERS = [
+  "authorization",
+  "cookie",
+  "proxy-authorization",
+  "set-cookie",
+  "x-api-key",
+]
+
+const DEFAULT_REDACTED_KEYS = [
+  "access_token",
+  "api_key",
+  "apikey",
+  "client_secret",
+  "password",
+  "refresh_token",
+  "secret",
+  "token",
+]
+
+const DEFAULT_REDACTED_SEARCH_PARAMS = ["access_token", "api_key", "token"]
+
+type Redaction = {
+  headers: string[]
+  keys: string[]
+  paths: string[][]
+  searchParams: string[]
+  replacement: string
+}
+
+/**
+ * Replace the values of a JSON value at the redacted keys, at any depth, and
+ * at the redacted paths.
+ *
+ * @param value - The value to redact, left untouched.
+ * @param paths - The redacted paths from the value, split into keys.
+ * @param redaction - The redaction rules.
+ * @returns The redacted copy of the value.
+ */
+function redactJSON(
+  value: unknown,
+  paths: string[][],
+  redaction: Redaction
+): unknown {
+  if (!(Array.isArray(value) || isPlainObject(value))) {
+    return value
+  }
+
+  const result = Array.isArray(value) ? [...value] : { ...value }
+
+  for (const [key, item] of Object.entries(result)) {
+    const matching = paths.filter(([first]) => first === "*" || first === key)
+    const redacted =
+      redaction.keys.includes(key.toLowerCase()) ||
+      matching.some((path) => path.length === 1)
+        ? redaction.replacement
+        : redactJSON(
+            item,
+            matching.map((path) => path.slice(1)),
+            redaction
+          )
+
+    // Arrays are indexed by string keys too
+    Reflect.set(result, key, redacted)
+  }
+
+  return result
+}
+
+/**
+ * Redact the headers of a request or response.
+ *
+ * @param headers - The headers.
+ * @param redaction - The redaction rules.
+ * @returns The redacted headers, keyed by lowercase name.
+ */
+function redactHeaders(
+  headers: HeadersInit | Record<string, unknown> | undefined,
+  redaction: Redaction
+): Record<string, string> {
+  const result: Record<string, string> = {}
+
+  new Headers(headers as HeadersInit | undefined).forEach((value, name) => {
+    result[name] = redaction.headers.includes(name)
+      ? redaction.replacement
+      : value
+  })
+
+  return result
+}
+
+/**
+ * Redact search params, keeping their order.
+ *
+ * @param searchParams - The search params, left untouched.
+ * @param redaction - The redaction rules.
+ * @returns The redacted search params.
+ */
+function redactSearchParams(
+  searchParams: URLSearchParams,
+  redaction: Redaction
+): URLSearchParams {
+  return new URLSearchParams(
+    [...searchParams].map(([name, value]) => [
+      name,
+      redaction.searchParams.includes(name.toLowerCase()) ||
+      redaction.keys.includes(name.toLowerCase())
+        ? redaction.replacement
+        : value,
+    ])
+  )
+}
+
+/**
+ * Build the redacted URL of a request.
+ *
+ * @param config - The request config.
+ * @param redaction - The redaction rules.
+ * @returns The redacted URL, or the raw url option if it is invalid.
+ */
+function redactURL(
+  config: ResolvedRAWRequestConfig<boolean>,
+  redaction: Redaction
+): string {
+  let url: URL
+  try {
+    url = buildRequestURL(config)
+  } catch {
+    return String(config.url ?? "")
+  }
+
+  url.search = redactSearchParams(url.searchParams, redaction).toString()
+  return url.href
+}
+
+/**
+ * Describe a body for the log, without reading streams or binary data.
+ *
+ * @param body - The request data or response data.
+ * @param redaction - The redaction rules.
+ * @param maxBodySize - The maximum size in characters.
+ * @returns The redacted and truncated body, or undefined if empty.
+ */
+function formatBody(
+  body: unknown,
+  redaction: Redaction,
+  maxBodySize: number
+): string | undefined {
+  let text: string
+
+  if (body === undefined || body === null || body === "") {
+    return undefined
+  } else if (typeof body === "string") {
+    try {
+      const json = JSON.parse(body)
+      text = JSON.stringify(redactJSON(json, redaction.paths, redaction))
+    } catch {
+      text = body
+    }
+  } else if (body instanceof URLSearchParams) {
+    text = redactSearchParams(body, redaction).toString()
+  } else if (Array.isArray(body) || isPlainObject(body)) {
+    text = JSON.stringify(redactJSON(body, redaction.paths, redaction))
+  } else if (typeof Blob !== "undefined" && body instanceof Blob) {
+    text = `[Blob ${body.size} bytes]`
+  } else if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    text = `[Binary ${body.byteLength} bytes]`
+  } else if (typeof FormData !== "undefined" && body instanceof FormData) {
+    text = "[FormData]"
+  } else if (typeof body === "object") {
+    // Streams and other objects are never read
+    text = `[${body.constructor?.name || "Object"}]`
+  } else {
+    text = String(body)
+  }
+
+  if (text.length <= maxBodySize) {
+    return text
+  }
+
+  return `${text.slice(0, maxBodySize)}… (${text.length - maxBodySize} more characters)`
+}
+
+/**
+ * Quote a value for a POSIX shell.
+ *
+ * @param value - The value to quote.
+ * @returns The quoted value.
+ */
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`
+}
+
+/**
+ * Format a log record as a line.
+ *
+ * @param record - The log record.
+ * @returns The formatted record.
+ */
+function formatLine(record: Omit<LogRecord, "message">): string {
+  const parts = [record.method, record.url]
+
+  if (record.type !== "request") {
+    parts.push(
+      record.status ? String(record.status) : String(record.code ?? "ERROR")
+    )
+    parts.push(`${Math.round(record.duration ?? 0)}ms`)
+  }
+  if (record.attempt > 1) {
+    parts.push(`(attempt ${record.attempt})`)
+  }
+  if (record.error) {
+    parts.push(`- ${record.error}`)
+  }
+  if (record.body !== undefined) {
+    parts.push(record.body)
+  }
+
+  return `${record.type === "request" ? "→" : "←"} ${parts.join(" ")}`
+}
+
+/**
+ * Format a request log record as a curl command.
+ *
+ * @param record - The request log record.
+ * @returns The curl command.
+ */
+function formatCurl(record: Omit<LogRecord, "message">): string {
+  const parts = ["curl", "-X", record.method, quote(record.url)]
+
+  for (const [name, value] of Object.entries(record.headers)) {
+    parts.push("-H", quote(`${name}: ${value}`))
+  }
+  if (record.body !== undefined) {
+    parts.push("--data-raw", quote(record.body))
+  }
+
+  return parts.join(" ")
+}
+
+/**
+ * Write a log record to the console.
+ *
+ * @param record - The log record.
+ */
+function consoleSink(record: LogRecord) {
+  console[record.level](record.message)
+}
+
+/**
+ * Create a middleware logging every attempt, its response and its error.
+ *
+ * Headers, JSON body keys and paths, and search params are redacted, and
+ * bodies are truncated. Response bodies are logged from the parsed data, so
+ * that a 'stream' response body is never read.
+ *
+ * @param options - The logger options.
+ * @returns The logger middleware.
+ *
+ * @example
+ * ```typescript
+ * httpClient.use(
+ *   createLoggerMiddleware({
+ *     level: "debug",
+ *     format: "curl",
+ *     redact: { paths: ["user.ssn", "cards.*.number"] },
+ *   })
+ * )
+ * ```
+ */
+export default function createLoggerMiddleware(
+  options: LoggerOptions = {}
+): HttpClientMiddleware {
+  const {
+    level = "info",
+    sink = consoleSink,
+    format = "line",
+    bodies = true,
+    maxBodySize = 1024,
+  } = options
+
+  const redaction: Redaction = {
+    headers: [
+      ...DEFAULT_REDACTED_HEADERS,
+      ...(options.redact?.headers || []).map((name) => name.toLowerCase()),
+    ],
+    keys: [
+      ...DEFAULT_REDACTED_KEYS,
+      ...(options.redact?.keys || []).map((name) => name.toLowerCase()),
+    ],
+    paths: (options.redact?.paths || []).map((path) => path.split(".")),
+    searchParams: [
+      ...DEFAULT_REDACTED_SEARCH_PARAMS,
+      ...(options.redact?.searchParams || []).map((name) => name.toLowerCase()),
+    ],
+    replacement: options.redact?.replacement ?? "[REDACTED]",
+  }
+
+  const log = (record: Omit<LogRecord, "message">) => {
+    if (LEVELS.indexOf(record.level) < LEVELS.indexOf(level)) {
+      return
+    }
+
+    let message: string
+    if (typeof format === "function") {
+      message = format({ ...record, message: "" })
+    } else if (format === "json") {
+      message = JSON.stringify(record)
+    } else if (format === "curl" && record.type === "request") {
+      message = formatCurl(record)
+    } else {
+      message = formatLine(record)
+    }
+
+    sink({ ...record, message })
+  }
+
+  return async (ctx, next) => {
+    const start = performance.now()
+    const config = ctx.config as ResolvedRAWRequestConfig<boolean>
+    const base = {
+      method: (config.method || "GET").toUpperCase(),
+      url: redactURL(config, redaction),
+      attempt: config.attempt ?? 1,
+    }
+
+    log({
+      ...base,
+      level: "debug",
+      type: "request",
+      headers: redactHeaders(config.headers, redaction),
+      body: bodies
+        ? formatBody(config.data, redaction, maxBodySize)
+        : undefined,
+    })
+
+    try {
+      await next()
+    } catch (error) {
+      const responseConfig = isHttpClientError(error)
+        ? error.responseConfig
+        : undefined
+
+      log({
+        ...base,
+        level: "error",
+        type: "error",
+        headers: redactHeaders(responseConfig?.headers, redaction),
+        body:
+          bodies && responseConfig
+            ? formatBody(responseConfig.data, redaction, maxBodySize)
+            : undefined,
+        status: responseConfig?.status,
+        duration: performance.now() - start,
+        code: isHttpClientError(error) ? error.code : undefined,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      throw error
+    }
+
+    const response = ctx.response
+    if (response) {
+      log({
+        ...base,
+        level: response.status >= 400 ? "warn" : "info",
+        type: "response",
+        headers: redactHeaders(response.headers, redaction),
+        body: bodies
+          ? formatBody(response.data, redaction, maxBodySize)
+          : undefined,
+        status: response.status,
+        duration: performance.now() - start,
+      })
+    }
+  }
+}
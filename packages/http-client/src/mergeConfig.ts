@@ -0,0 +1,200 @@
+import { appendSearchParams } from "./adapters/shared.js"
+import { HttpClientHeaders, SearchParams } from "./types.js"
+
+// Options holding values rather than settings, replaced instead of deep-merged
+const VALUE_KEYS = ["data", "schema"]
+
+/**
+ * Check if a value is a plain object.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a plain object, false otherwise.
+ */
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false
+  }
+
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+/**
+ * Deep-merge two plain objects, ignoring undefined values.
+ *
+ * @param base - The base object.
+ * @param override - The object overriding the base object.
+ * @returns The merged object.
+ */
+function mergeObjects(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>
+): Record<string, unknown> {
+  const result = { ...base }
+
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) {
+      continue
+    }
+
+    const current = result[key]
+    result[key] =
+      isPlainObject(current) && isPlainObject(value)
+        ? mergeObjects(current, value)
+        : value
+  }
+
+  return result
+}
+
+/**
+ * Merge headers case-insensitively into a record keyed by lowercase name.
+ *
+ * Only record sources can remove a header with a null value, as Headers
+ * instances and tuple arrays cannot hold one.
+ *
+ * @param sources - The headers to merge, later sources override earlier ones.
+ * @returns The merged headers.
+ */
+function mergeHeaders(
+  ...sources: (HttpClientHeaders | undefined)[]
+): Record<string, string> {
+  const result: Record<string, string> = {}
+
+  for (const source of sources) {
+    if (!source) {
+      continue
+    }
+
+    if (source instanceof Headers || Array.isArray(source)) {
+      new Headers(source).forEach((value, name) => {
+        result[name] = value
+      })
+      continue
+    }
+
+    for (const [name, value] of Object.entries(source)) {
+      if (value === null) {
+        delete result[name.toLowerCase()]
+      } else if (value !== undefined) {
+        result[name.toLowerCase()] = String(value)
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Concatenate search params, a null value in the override record removes the
+ * base values of its key.
+ *
+ * @param base - The base search params.
+ * @param override - The search params appended to the base ones.
+ * @returns The concatenated search params.
+ */
+function mergeSearchParams(
+  base: SearchParams | undefined,
+  override: SearchParams
+): SearchParams {
+  if (!base) {
+    return override
+  }
+
+  const result = new URLSearchParams()
+  appendSearchParams(result, base)
+
+  if (!(override instanceof URLSearchParams)) {
+    for (const [key, value] of Object.entries(override)) {
+      if (value === null) {
+        result.delete(key)
+      }
+    }
+  }
+
+  appendSearchParams(result, override)
+  return result
+}
+
+/**
+ * Merge a request config into a base config.
+ *
+ * Headers merge case-insensitively, search params concatenate, plain objects
+ * such as next or retry deep-merge, and undefined values keep the base value.
+ *
+ * @param base - The base config.
+ * @param override - The config overriding the base config.
+ * @returns The merged config.
+ */
+const mergeConfig = <C extends object>(base: C, override?: object): C => {
+  const result = { ...base } as Record<string, unknown>
+  if (!override) {
+    return result as C
+  }
+
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) {
+      continue
+    }
+
+    const current = result[key]
+
+    if (key === "headers") {
+      result.headers = mergeHeaders(
+        current as HttpClientHeaders | undefined,
+        value as HttpClientHeaders
+      )
+    } else if (key === "searchParams") {
+      result.searchParams = mergeSearchParams(
+        current as SearchParams | undefined,
+        value as SearchParams
+      )
+    } else if (
+      !VALUE_KEYS.includes(key) &&
+      isPlainObject(current) &&
+      isPlainObject(value)
+    ) {
+      result[key] = mergeObjects(current, value)
+    } else {
+      result[key] = value
+    }
+  }
+
+  return result as C
+}
+
+/**
+ * Copy a config, freezing its plain objects and arrays deeply. Search params
+ * are copied to a record of value arrays keyed by name, and other class
+ * instances such as signals, agents or caches are kept as is.
+ *
+ * @param value - The config or config value to freeze.
+ * @returns The frozen copy.
+ */
+export function freezeConfig<V>(value: V): V {
+  if (value instanceof URLSearchParams) {
+    const record: Record<string, string[]> = {}
+    value.forEach((item, key) => {
+      record[key] = [...(record[key] || []), item]
+    })
+    return freezeConfig(record) as V
+  }
+
+  if (Array.isArray(value)) {
+    return Object.freeze(value.map(freezeConfig)) as V
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).map(([key, item]) => [
+      key,
+      freezeConfig(item),
+    ])
+    return Object.freeze(Object.fromEntries(entries)) as V
+  }
+
+  return value
+}
+
+export default mergeConfig
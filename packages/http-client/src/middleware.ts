@@ -0,0 +1,77 @@
+import HttpClientError from "./httpClientError.js"
+import {
+  HttpClientMiddleware,
+  MiddlewareContext,
+  RAWResponseConfig,
+  ResolvedRAWRequestConfig,
+} from "./types.js"
+
+/**
+ * Run a request through middleware, Koa style: each middleware runs code
+ * before and after calling next, and may short-circuit the dispatch by
+ * setting ctx.response without calling next.
+ *
+ * @param middleware - The middleware, from the outermost to the innermost.
+ * @param config - The request config.
+ * @param dispatch - Function dispatching the request after the middleware.
+ * @returns The response config.
+ */
+const runMiddleware = async <
+  ForceSignal extends boolean,
+  T = unknown,
+  D = unknown,
+>(
+  middleware: HttpClientMiddleware[],
+  config: ResolvedRAWRequestConfig<ForceSignal, D>,
+  dispatch: (
+    config: ResolvedRAWRequestConfig<ForceSignal, D>
+  ) => Promise<RAWResponseConfig<T, D>>
+): Promise<RAWResponseConfig<T, D>> => {
+  const ctx: MiddlewareContext = { config }
+  let lastIndex = -1
+
+  const run = async (index: number): Promise<void> => {
+    if (index <= lastIndex) {
+      throw new HttpClientError(
+        "next() called multiple times",
+        HttpClientError.ERR_BAD_CONFIG,
+        ctx.config
+      )
+    }
+    lastIndex = index
+
+    const current = middleware[index]
+    if (current) {
+      await current(ctx, () => run(index + 1))
+      return
+    }
+
+    // Innermost: dispatch the request with the config left by the middleware
+    try {
+      ctx.response = await dispatch(
+        ctx.config as ResolvedRAWRequestConfig<ForceSignal, D>
+      )
+      ctx.error = undefined
+    } catch (error) {
+      ctx.error = error
+      throw error
+    }
+  }
+
+  await run(0)
+
+  if (ctx.response) {
+    return ctx.response as RAWResponseConfig<T, D>
+  }
+
+  throw (
+    ctx.error ||
+    new HttpClientError(
+      "Middleware completed without a response",
+      HttpClientError.ERR_BAD_CONFIG,
+      ctx.config
+    )
+  )
+}
+
+export default runMiddleware
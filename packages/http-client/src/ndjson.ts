@@ -0,0 +1,150 @@
+import HttpClientError from "./httpClientError.js"
+import { parseJSONText } from "./parsers.js"
+import { RAWRequestConfig, RAWRequestConfigForceSignal } from "./types.js"
+import { formatIssues, runSchema } from "./validate.js"
+
+/**
+ * Iterate over the lines of a newline-delimited JSON response body, parsed
+ * one at a time as the consumer pulls them, so that the body is read no
+ * faster than it is consumed.
+ *
+ * The timeout of the config covers reading the whole body from the start of
+ * the request, and aborting the signal stops reading it, rejecting the
+ * iteration with ERR_TIMEDOUT or ERR_CANCELED as the adapters do. Empty lines
+ * are skipped and each line is validated by the lineSchema of the config.
+ *
+ * @param response - The response, its body is not read yet.
+ * @param config - The request config.
+ * @param start - Time the adapter started the request, from performance.now().
+ * @returns The async iterable of parsed lines.
+ */
+export default async function* readNDJSON(
+  response: Response,
+  config: RAWRequestConfig | RAWRequestConfigForceSignal,
+  start: number
+): AsyncGenerator<unknown, void, undefined> {
+  if (!response.body) {
+    return
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  const signal = config.signal || undefined
+  const timeout = config.timeout ?? 30000
+
+  let reason: string | undefined
+  const stop = (code: string) => {
+    reason ??= code
+    reader.cancel().catch(() => {})
+  }
+  const onAbort = () => stop(HttpClientError.ERR_CANCELED)
+
+  // Adapters stop observing the timeout and signal once the response is
+  // received
+  const timeoutId =
+    timeout > 0
+      ? setTimeout(
+          () => stop(HttpClientError.ERR_TIMEDOUT),
+          Math.max(0, start + timeout - performance.now())
+        )
+      : undefined
+  if (signal?.aborted) {
+    onAbort()
+  }
+  signal?.addEventListener("abort", onAbort, { once: true })
+
+  let buffer = ""
+  let lineNumber = 0
+
+  const parseLine = async (line: string) => {
+    lineNumber++
+
+    let value: unknown
+    try {
+      value = parseJSONText(line, config)
+    } catch (error) {
+      throw new HttpClientError(
+        `Failed to parse line ${lineNumber}: ${error instanceof Error ? error.message : String(error)}`,
+        HttpClientError.ERR_BAD_RESPONSE,
+        config
+      )
+    }
+
+    if (!config.lineSchema) {
+      return value
+    }
+
+    const result = await runSchema(config.lineSchema, value)
+    if (result.issues) {
+      throw new HttpClientError(
+        `Line ${lineNumber} validation failed: ${formatIssues(result.issues)}`,
+        HttpClientError.ERR_VALIDATION,
+        config,
+        undefined,
+        result.issues
+      )
+    }
+
+    return result.value
+  }
+
+  try {
+    for (;;) {
+      let chunk: ReadableStreamReadResult<Uint8Array>
+      try {
+        chunk = await reader.read()
+      } catch (error) {
+        if (reason) {
+          break
+        }
+
+        throw new HttpClientError(
+          `Network error: ${error instanceof Error ? error.message : String(error)}`,
+          HttpClientError.ERR_NETWORK,
+          config
+        )
+      }
+
+      if (chunk.done || reason) {
+        break
+      }
+
+      // JSON.parse ignores the carriage return of CRLF line endings
+      const lines = (
+        buffer + decoder.decode(chunk.value, { stream: true })
+      ).split("\n")
+      buffer = lines.pop()!
+
+      for (const line of lines) {
+        if (line.trim()) {
+          yield await parseLine(line)
+        }
+      }
+    }
+
+    if (reason === HttpClientError.ERR_TIMEDOUT) {
+      throw new HttpClientError(
+        "Request timed out",
+        HttpClientError.ERR_TIMEDOUT,
+        config
+      )
+    }
+    if (reason === HttpClientError.ERR_CANCELED) {
+      throw new HttpClientError(
+        "Request canceled",
+        HttpClientError.ERR_CANCELED,
+        config
+      )
+    }
+
+    // The last line may not end with a line feed
+    buffer += decoder.decode()
+    if (buffer.trim()) {
+      yield await parseLine(buffer)
+    }
+  } finally {
+    clearTimeout(timeoutId)
+    signal?.removeEventListener("abort", onAbort)
+    reader.cancel().catch(() => {})
+  }
+}
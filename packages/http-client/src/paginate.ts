@@ -0,0 +1,255 @@
+import { appendSearchParams } from "./adapters/shared.js"
+import mergeConfig, { isPlainObject } from "./mergeConfig.js"
+import {
+  PaginationConfig,
+  PaginationStrategy,
+  ResolvedRAWRequestConfig,
+  ResponseConfig,
+  SearchParams,
+} from "./types.js"
+
+type Page = {
+  response: ResponseConfig
+  items: unknown[]
+}
+
+const DEFAULT_PARAMS: Record<PaginationStrategy, string> = {
+  link: "",
+  cursor: "cursor",
+  page: "page",
+  offset: "offset",
+}
+
+/**
+ * Get the value at a dot path of the response data.
+ *
+ * @param data - The response data.
+ * @param path - The dot path, such as `meta.next_cursor`.
+ * @returns The value, or undefined if the path is missing.
+ */
+function getPath(data: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        isPlainObject(value) || Array.isArray(value)
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      data
+    )
+}
+
+/**
+ * Get the items of a page.
+ *
+ * @param response - The response of the page.
+ * @param pagination - The pagination config.
+ * @returns The items, empty if none are found.
+ */
+function getItems(
+  response: ResponseConfig,
+  pagination: PaginationConfig
+): unknown[] {
+  if (pagination.items) {
+    return pagination.items(response)
+  }
+
+  const { data } = response
+  if (Array.isArray(data)) {
+    return data
+  }
+
+  for (const key of ["items", "data"]) {
+    const items = getPath(data, key)
+    if (Array.isArray(items)) {
+      return items
+    }
+  }
+
+  return []
+}
+
+/**
+ * Get the target of the Link header with rel="next".
+ *
+ * @param header - The Link header.
+ * @param url - The URL of the response, resolving relative targets.
+ * @returns The URL of the next page, or undefined if there is none.
+ */
+function getNextLink(
+  header: string | null,
+  url: string
+): URL | string | undefined {
+  for (const [, target, params] of (header || "").matchAll(
+    /<([^>]*)>([^,<]*)/g
+  )) {
+    const rel = params!.match(/;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;,]+))/i)
+    const relations = (rel?.[1] ?? rel?.[2] ?? "").toLowerCase().split(/\s+/)
+
+    if (relations.includes("next")) {
+      try {
+        return new URL(target!, url)
+      } catch {
+        // Resolved against the baseURL of the config instead
+        return target
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Set search params of a request config, replacing the values of their names.
+ *
+ * @param config - The request config.
+ * @param searchParams - The search params to set, a null value removes its name.
+ * @returns The request config with the search params.
+ */
+function withSearchParams<ForceSignal extends boolean>(
+  config: ResolvedRAWRequestConfig<ForceSignal>,
+  searchParams: SearchParams
+): ResolvedRAWRequestConfig<ForceSignal> {
+  const result = new URLSearchParams()
+  appendSearchParams(result, config.searchParams || {})
+
+  const names =
+    searchParams instanceof URLSearchParams
+      ? [...searchParams.keys()]
+      : Object.keys(searchParams).filter(
+          (name) => searchParams[name] !== undefined
+        )
+  for (const name of names) {
+    result.delete(name)
+  }
+  appendSearchParams(result, searchParams)
+
+  return { ...config, searchParams: result }
+}
+
+/**
+ * Request the pages of a paginated resource, stopping at the last page or at
+ * the maxPages or maxItems limit of the pagination config.
+ *
+ * @param send - Function sending the request of a page.
+ * @param config - The initial request config merged with the base config,
+ * with the pagination config.
+ * @returns The async iterable of pages.
+ */
+async function* readPages<ForceSignal extends boolean>(
+  send: (
+    config: ResolvedRAWRequestConfig<ForceSignal>
+  ) => Promise<ResponseConfig>,
+  config: ResolvedRAWRequestConfig<ForceSignal>
+): AsyncGenerator<Page, void, undefined> {
+  const pagination = config.pagination || {}
+  const {
+    strategy = "link",
+    startPage = 1,
+    maxPages = Infinity,
+    maxItems = Infinity,
+  } = pagination
+  const param = pagination.param ?? DEFAULT_PARAMS[strategy]
+  const custom = Boolean(pagination.getNextRequest)
+
+  let pageConfig: ResolvedRAWRequestConfig<ForceSignal> | undefined =
+    !custom && strategy === "page"
+      ? withSearchParams(config, { [param]: startPage })
+      : !custom && strategy === "offset"
+        ? withSearchParams(config, { [param]: 0 })
+        : config
+  let pages = 0
+  let count = 0
+
+  while (pageConfig && pages < maxPages && count < maxItems) {
+    const response = await send(pageConfig)
+    const items = getItems(response, pagination)
+    pages++
+    count += items.length
+
+    yield { response, items }
+
+    if (pagination.getNextRequest) {
+      const next = await pagination.getNextRequest(response, items, pages)
+      pageConfig = next
+        ? withSearchParams(
+            mergeConfig(config, { ...next, searchParams: undefined }),
+            next.searchParams || {}
+          )
+        : undefined
+    } else if (strategy === "link") {
+      // The Link target already holds the search params of the next page
+      const next = getNextLink(response.headers.get("Link"), response.url)
+      pageConfig = next
+        ? { ...config, url: next, searchParams: undefined }
+        : undefined
+    } else if (strategy === "cursor") {
+      const { cursor = "next_cursor" } = pagination
+      const next =
+        typeof cursor === "function"
+          ? cursor(response)
+          : getPath(response.data, cursor)
+      pageConfig =
+        next !== undefined && next !== null && next !== ""
+          ? withSearchParams(config, { [param]: String(next) })
+          : undefined
+    } else {
+      // Page numbers and offsets end with an empty page
+      pageConfig =
+        items.length > 0
+          ? withSearchParams(config, {
+              [param]: strategy === "page" ? startPage + pages : count,
+            })
+          : undefined
+    }
+  }
+}
+
+/**
+ * Iterate over the pages of a paginated resource.
+ *
+ * @param send - Function sending the request of a page.
+ * @param config - The initial request config merged with the base config,
+ * with the pagination config.
+ * @returns The async iterable of page responses.
+ */
+export async function* paginatePages<ForceSignal extends boolean>(
+  send: (
+    config: ResolvedRAWRequestConfig<ForceSignal>
+  ) => Promise<ResponseConfig>,
+  config: ResolvedRAWRequestConfig<ForceSignal>
+): AsyncGenerator<ResponseConfig, void, undefined> {
+  for await (const { response } of readPages(send, config)) {
+    yield response
+  }
+}
+
+/**
+ * Iterate over the items of a paginated resource, requesting the next page
+ * once the items of the current one are consumed.
+ *
+ * @param send - Function sending the request of a page.
+ * @param config - The initial request config merged with the base config,
+ * with the pagination config.
+ * @returns The async iterable of items.
+ */
+export default async function* paginate<ForceSignal extends boolean>(
+  send: (
+    config: ResolvedRAWRequestConfig<ForceSignal>
+  ) => Promise<ResponseConfig>,
+  config: ResolvedRAWRequestConfig<ForceSignal>
+): AsyncGenerator<unknown, void, undefined> {
+  const maxItems = config.pagination?.maxItems ?? Infinity
+  let count = 0
+
+  for await (const { items } of readPages(send, config)) {
+    for (const item of items) {
+      if (count >= maxItems) {
+        return
+      }
+
+      count++
+      yield item
+    }
+  }
+}
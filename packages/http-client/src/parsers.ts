@@ -0,0 +1,149 @@
+import {
+  HttpClientParser,
+  RAWRequestConfig,
+  RAWRequestConfigForceSignal,
+} from "./types.js"
+
+type AnyRequestConfig = RAWRequestConfig | RAWRequestConfigForceSignal
+
+// Media types DOMParser can parse
+const DOCUMENT_TYPES = [
+  "text/html",
+  "text/xml",
+  "application/xml",
+  "application/xhtml+xml",
+  "image/svg+xml",
+]
+
+// Media types decoded as text when a parser fails
+const TEXT_TYPES =
+  /^text\/|[/+](json|xml)$|^application\/(x-www-form-urlencoded|x-ndjson|ndjson|javascript)$/
+
+/**
+ * Get the media type of a Content-Type header.
+ *
+ * @param contentType - The Content-Type header.
+ * @returns The lowercase media type without parameters, empty if missing.
+ */
+export function getMediaType(contentType: string | null): string {
+  return (contentType || "").split(";")[0]!.trim().toLowerCase()
+}
+
+/**
+ * Parse a JSON body, with the jsonReviver of the config.
+ *
+ * @param text - The body.
+ * @param config - The request config.
+ * @returns The parsed data, or null for an empty body.
+ */
+export function parseJSONText(text: string, config: AnyRequestConfig) {
+  return text ? JSON.parse(text, config.jsonReviver) : null
+}
+
+/**
+ * Parse an HTML or XML body into a Document where DOMParser is available,
+ * such as in browsers.
+ *
+ * @param text - The body.
+ * @param contentType - The Content-Type header of the response.
+ * @returns The Document, or the text where DOMParser is not available.
+ */
+export function parseDocumentText(
+  text: string,
+  contentType: string | null
+): Document | string {
+  if (typeof DOMParser === "undefined") {
+    return text
+  }
+
+  const mediaType = getMediaType(contentType)
+  const type = DOCUMENT_TYPES.includes(mediaType)
+    ? mediaType
+    : mediaType.endsWith("+xml")
+      ? "application/xml"
+      : "text/html"
+
+  return new DOMParser().parseFromString(text, type as DOMParserSupportedType)
+}
+
+/**
+ * Decode the raw body of a response whose parsing failed.
+ *
+ * @param body - The body.
+ * @param contentType - The Content-Type header of the response.
+ * @returns The text of textual bodies, the body otherwise.
+ */
+export function decodeRawBody(
+  body: ArrayBuffer,
+  contentType: string | null
+): string | ArrayBuffer {
+  const mediaType = getMediaType(contentType)
+  return !mediaType || TEXT_TYPES.test(mediaType)
+    ? new TextDecoder().decode(body)
+    : body
+}
+
+const parseJSON: HttpClientParser = async (response, config) =>
+  parseJSONText(await response.text(), config)
+
+const parseText: HttpClientParser = (response) => response.text()
+
+const parseDocument: HttpClientParser = async (response) =>
+  parseDocumentText(await response.text(), response.headers.get("Content-Type"))
+
+const parseFormData: HttpClientParser = (response) => response.formData()
+
+const parseArrayBuffer: HttpClientParser = (response) => response.arrayBuffer()
+
+/**
+ * The registered parsers of the 'auto' response type, keyed by media type or
+ * by top-level type wildcard such as `text/*`.
+ */
+export const parsers = new Map<string, HttpClientParser>([
+  ["application/json", parseJSON],
+  ["application/xml", parseDocument],
+  ["text/xml", parseDocument],
+  ["text/*", parseText],
+  ["multipart/form-data", parseFormData],
+  ["application/x-www-form-urlencoded", parseFormData],
+  ["application/octet-stream", parseArrayBuffer],
+])
+
+/**
+ * Register a parser of the 'auto' response type for a media type, replacing
+ * any existing one.
+ *
+ * @param contentType - The media type without parameters, or a top-level
+ * type wildcard such as `text/*`.
+ * @param parser - The parser.
+ */
+export function registerParser(
+  contentType: string,
+  parser: HttpClientParser
+): void {
+  parsers.set(contentType.toLowerCase(), parser)
+}
+
+/**
+ * Get the parser of a Content-Type header, looking up the media type, its
+ * structured syntax suffix such as `+json`, then its top-level type wildcard.
+ * Responses without Content-Type are parsed as text, and unknown media types
+ * as an ArrayBuffer.
+ *
+ * @param contentType - The Content-Type header.
+ * @returns The parser.
+ */
+export function getParser(contentType: string | null): HttpClientParser {
+  const mediaType = getMediaType(contentType)
+  if (!mediaType) {
+    return parseText
+  }
+
+  const suffix = mediaType.match(/\+([a-z0-9-]+)$/)?.[1]
+  return (
+    parsers.get(mediaType) ||
+    (suffix ? parsers.get(`application/${suffix}`) : undefined) ||
+    parsers.get(`${mediaType.split("/")[0]}/*`) ||
+    parseArrayBuffer
+  )
+}
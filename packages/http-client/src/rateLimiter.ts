@@ -0,0 +1,280 @@
+import { buildRequestURL, extendTimings } from "./adapters/shared.js"
+import HttpClientError from "./httpClientError.js"
+import {
+  RateLimiterOptions,
+  RAWResponseConfig,
+  ResolvedRAWRequestConfig,
+} from "./types.js"
+
+type Waiter = {
+  priority: number
+  resolve: () => void
+}
+
+type Lane = {
+  key: string
+  // Token bucket of the rate limit
+  tokens: number
+  refilledAt: number
+  // Requests in flight
+  active: number
+  // Queued requests, by descending priority then in arrival order
+  queue: Waiter[]
+  timer?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * The RateLimiter class limits the rate and the concurrency of requests,
+ * queuing the requests over the limits.
+ *
+ * Requests are limited per lane, the request origin by default. The rate is
+ * a token bucket refilled continuously, allowing bursts after an idle period,
+ * and the concurrency a semaphore held until the response settles. Queued
+ * requests run by descending priority and fail with ERR_CANCELED or
+ * ERR_TIMEDOUT when their signal aborts or their timeout elapses while they
+ * wait. The wait time is reported in the response timings.
+ *
+ * @param options - The RateLimiter options
+ *
+ * @example
+ * ```typescript
+ * const httpClient = new HttpClient({
+ *   baseURL: "https://partner.example.com",
+ *   rateLimiter: new RateLimiter({ limit: 10, interval: 1000, concurrency: 4 }),
+ * })
+ *
+ * await httpClient.get("/search", { priority: 10 })
+ * await httpClient.get("/sync", { priority: -10 })
+ * ```
+ */
+export default class RateLimiter {
+  private lanes = new Map<string, Lane>()
+
+  constructor(private options: RateLimiterOptions = {}) {}
+
+  /**
+   * Dispatch a request once its lane allows it.
+   *
+   * @param config - The request config.
+   * @param send - Function sending the request.
+   * @returns The response config, with the wait time in its timings.
+   */
+  async dispatch<ForceSignal extends boolean, T = unknown, D = unknown>(
+    config: ResolvedRAWRequestConfig<ForceSignal, D>,
+    send: (
+      config: ResolvedRAWRequestConfig<ForceSignal, D>
+    ) => Promise<RAWResponseConfig<T, D>>
+  ): Promise<RAWResponseConfig<T, D>> {
+    const key = this.options.key
+      ? this.options.key(config)
+      : buildRequestURL(config).origin
+    const lane = this.getLane(key)
+
+    const queuedAt = performance.now()
+    await this.acquire(lane, config)
+    const wait = performance.now() - queuedAt
+
+    // The wait counts towards the timeout of the request
+    const timeout = config.timeout ?? 30000
+    const sendConfig =
+      wait >= 1 && timeout > 0
+        ? { ...config, timeout: Math.max(1, Math.round(timeout - wait)) }
+        : config
+
+    try {
+      const response = await send(sendConfig)
+      return { ...response, timings: extendTimings(response.timings, { wait }) }
+    } finally {
+      lane.active--
+      this.schedule(lane)
+    }
+  }
+
+  /**
+   * Get the lane of a key, creating it with a full token bucket.
+   *
+   * @param key - The lane key.
+   * @returns The lane.
+   */
+  private getLane(key: string): Lane {
+    let lane = this.lanes.get(key)
+    if (!lane) {
+      lane = {
+        key,
+        tokens: this.getBurst(),
+        refilledAt: performance.now(),
+        active: 0,
+        queue: [],
+      }
+      this.lanes.set(key, lane)
+    }
+
+    return lane
+  }
+
+  /**
+   * Wait until a lane lets a request through.
+   *
+   * @param lane - The lane.
+   * @param config - The request config.
+   * @throws {HttpClientError} If the request is aborted or times out while queued.
+   */
+  private acquire<ForceSignal extends boolean>(
+    lane: Lane,
+    config: ResolvedRAWRequestConfig<ForceSignal>
+  ): Promise<void> {
+    const signal = config.signal || undefined
+    if (signal && signal.aborted) {
+      this.schedule(lane)
+      return Promise.reject(
+        new HttpClientError(
+          "Request canceled",
+          HttpClientError.ERR_CANCELED,
+          config
+        )
+      )
+    }
+
+    return new Promise((resolve, reject) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined
+
+      const cleanup = () => {
+        clearTimeout(timeoutId)
+        signal?.removeEventListener("abort", onAbort)
+      }
+
+      const waiter: Waiter = {
+        priority: config.priority ?? 0,
+        resolve: () => {
+          cleanup()
+          resolve()
+        },
+      }
+
+      const leave = (error: HttpClientError) => {
+        cleanup()
+        lane.queue.splice(lane.queue.indexOf(waiter), 1)
+        this.schedule(lane)
+        reject(error)
+      }
+
+      const onAbort = () =>
+        leave(
+          new HttpClientError(
+            "Request canceled",
+            HttpClientError.ERR_CANCELED,
+            config
+          )
+        )
+
+      const timeout = config.timeout ?? 30000
+      if (timeout > 0) {
+        timeoutId = setTimeout(
+          () =>
+            leave(
+              new HttpClientError(
+                "Request timed out",
+                HttpClientError.ERR_TIMEDOUT,
+                config
+              )
+            ),
+          timeout
+        )
+      }
+      signal?.addEventListener("abort", onAbort)
+
+      const index = lane.queue.findIndex((w) => w.priority < waiter.priority)
+      lane.queue.splice(index === -1 ? lane.queue.length : index, 0, waiter)
+
+      this.schedule(lane)
+    })
+  }
+
+  /**
+   * Let the queued requests of a lane through while its limits allow it,
+   * waking up once a token is refilled otherwise. An idle lane is removed
+   * once its token bucket is full again.
+   *
+   * @param lane - The lane.
+   */
+  private schedule(lane: Lane) {
+    const { limit, interval = 1000, concurrency } = this.options
+
+    while (lane.queue.length > 0) {
+      if (concurrency !== undefined && lane.active >= concurrency) {
+        return
+      }
+
+      if (limit !== undefined) {
+        this.refill(lane)
+
+        if (lane.tokens < 1) {
+          this.wakeUp(lane, ((1 - lane.tokens) * interval) / limit)
+          return
+        }
+
+        lane.tokens--
+      }
+
+      lane.active++
+      lane.queue.shift()!.resolve()
+    }
+
+    if (lane.active > 0) {
+      return
+    }
+
+    this.refill(lane)
+    if (lane.tokens >= this.getBurst()) {
+      clearTimeout(lane.timer)
+      this.lanes.delete(lane.key)
+    } else {
+      this.wakeUp(lane, ((this.getBurst() - lane.tokens) * interval) / limit!)
+      // Removing an idle lane must not keep the process alive
+      lane.timer?.unref?.()
+    }
+  }
+
+  /**
+   * Refill the token bucket of a lane for the time elapsed since the last
+   * refill.
+   *
+   * @param lane - The lane.
+   */
+  private refill(lane: Lane) {
+    const { limit, interval = 1000 } = this.options
+    if (limit === undefined) {
+      return
+    }
+
+    const now = performance.now()
+    lane.tokens = Math.min(
+      this.getBurst(),
+      lane.tokens + ((now - lane.refilledAt) * limit) / interval
+    )
+    lane.refilledAt = now
+  }
+
+  /**
+   * Schedule a lane again after a delay, replacing its pending wake-up.
+   *
+   * @param lane - The lane.
+   * @param delay - The delay in milliseconds.
+   */
+  private wakeUp(lane: Lane, delay: number) {
+    clearTimeout(lane.timer)
+    lane.timer = setTimeout(() => {
+      lane.timer = undefined
+      this.schedule(lane)
+    }, Math.ceil(delay))
+  }
+
+  /**
+   * Get the capacity of the token bucket.
+   *
+   * @returns The burst option, defaults to the limit.
+   */
+  private getBurst(): number {
+    return this.options.burst ?? this.options.limit ?? Infinity
+  }
+}
@@ -0,0 +1,237 @@
+import HttpClientError from "./httpClientError.js"
+import { ResolvedRAWRequestConfig, RetryConfig } from "./types.js"
+import { isHttpClientError } from "./utils.js"
+
+type ResolvedRetryConfig = Required<Omit<RetryConfig, "shouldRetry">> &
+  Pick<RetryConfig, "shouldRetry">
+
+const DEFAULT_RETRY_CONFIG: ResolvedRetryConfig = {
+  limit: 0,
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+  statusCodes: [408, 429, 500, 502, 503, 504],
+  delay: 300,
+  factor: 2,
+  maxDelay: 30000,
+  jitter: true,
+  retryAfter: true,
+  deadline: 0,
+}
+
+const RETRYABLE_ERROR_CODES: unknown[] = [
+  HttpClientError.ERR_NETWORK,
+  HttpClientError.ERR_TIMEDOUT,
+]
+
+/**
+ * Resolve the retry option into a complete retry config.
+ *
+ * @param retry - The retry option from the request config.
+ * @returns The retry config with defaults applied.
+ */
+export function resolveRetryConfig(
+  retry: number | RetryConfig | undefined
+): ResolvedRetryConfig {
+  if (typeof retry === "number") {
+    return { ...DEFAULT_RETRY_CONFIG, limit: retry }
+  }
+
+  return { ...DEFAULT_RETRY_CONFIG, ...retry }
+}
+
+/**
+ * Read the Retry-After header of a failed response.
+ *
+ * @param error - The error to read the header from.
+ * @returns The delay in milliseconds, or undefined if not present.
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  if (!isHttpClientError(error) || ![429, 503].includes(error.status)) {
+    return undefined
+  }
+
+  const value = error.responseConfig?.headers?.get("Retry-After")
+  if (!value) {
+    return undefined
+  }
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) {
+    return undefined
+  }
+
+  return Math.max(0, date - Date.now())
+}
+
+/**
+ * Compute the delay before the next attempt.
+ *
+ * @param retry - The resolved retry config.
+ * @param attempt - The attempt that just failed, starting at 1.
+ * @param error - The error of the failed attempt.
+ * @returns The delay in milliseconds.
+ */
+export function computeRetryDelay(
+  retry: ResolvedRetryConfig,
+  attempt: number,
+  error: unknown
+): number {
+  if (retry.retryAfter) {
+    const retryAfter = getRetryAfter(error)
+    if (retryAfter !== undefined) {
+      return Math.min(retry.maxDelay, retryAfter)
+    }
+  }
+
+  const backoff = Math.min(
+    retry.maxDelay,
+    retry.delay * Math.pow(retry.factor, attempt - 1)
+  )
+
+  return retry.jitter ? Math.random() * backoff : backoff
+}
+
+/**
+ * Wait for the given delay, rejecting early when the signal aborts.
+ *
+ * @param ms - The delay in milliseconds.
+ * @param config - The request config holding the signal.
+ */
+export function sleep<ForceSignal extends boolean>(
+  ms: number,
+  config: ResolvedRAWRequestConfig<ForceSignal>
+): Promise<void> {
+  const signal = config.signal || undefined
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      reject(
+        new HttpClientError(
+          "Request canceled",
+          HttpClientError.ERR_CANCELED,
+          config
+        )
+      )
+    }
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+
+    if (signal) {
+      if (signal.aborted) {
+        onAbort()
+        return
+      }
+      signal.addEventListener("abort", onAbort, { once: true })
+    }
+  })
+}
+
+/**
+ * Check if a failed attempt should be retried.
+ *
+ * @param retry - The resolved retry config.
+ * @param error - The error of the failed attempt.
+ * @param attempt - The attempt that just failed, starting at 1.
+ * @param config - The request config of the failed attempt.
+ * @returns True if the request should be retried, false otherwise.
+ */
+async function shouldRetry<ForceSignal extends boolean>(
+  retry: ResolvedRetryConfig,
+  error: unknown,
+  attempt: number,
+  config: ResolvedRAWRequestConfig<ForceSignal>
+): Promise<boolean> {
+  if (attempt > retry.limit) {
+    return false
+  }
+
+  if (isHttpClientError(error) && error.code === HttpClientError.ERR_CANCELED) {
+    return false
+  }
+
+  if (retry.shouldRetry) {
+    return retry.shouldRetry(error, attempt, config)
+  }
+
+  const method = (config.method || "GET").toUpperCase()
+  if (!retry.methods.some((m) => m.toUpperCase() === method)) {
+    return false
+  }
+
+  if (!isHttpClientError(error)) {
+    return false
+  }
+
+  return (
+    RETRYABLE_ERROR_CODES.includes(error.code) ||
+    retry.statusCodes.includes(error.status)
+  )
+}
+
+/**
+ * Run a request with the retry policy of its config.
+ *
+ * Each attempt receives a copy of the config with `attempt` set. When a
+ * deadline is configured, the per-attempt `timeout` is shortened so that no
+ * attempt outlives the remaining budget.
+ *
+ * @param config - The request config.
+ * @param send - Function sending a single attempt.
+ * @param onRetry - Function called before waiting for the next attempt.
+ * @returns The result of the first successful attempt.
+ */
+export default async function retryRequest<
+  ForceSignal extends boolean,
+  T,
+  D = unknown,
+>(
+  config: ResolvedRAWRequestConfig<ForceSignal, D>,
+  send: (config: ResolvedRAWRequestConfig<ForceSignal, D>) => Promise<T>,
+  onRetry?: (
+    error: unknown,
+    config: ResolvedRAWRequestConfig<ForceSignal, D>,
+    delay: number
+  ) => void
+): Promise<T> {
+  const retry = resolveRetryConfig(config.retry)
+  const startedAt = Date.now()
+
+  for (let attempt = 1; ; attempt++) {
+    const attemptConfig = { ...config, attempt }
+
+    if (retry.deadline > 0) {
+      // A timeout of 0 disables the timeout, so keep at least 1ms
+      const remaining = Math.max(1, retry.deadline - (Date.now() - startedAt))
+      const timeout = config.timeout ?? 30000
+      attemptConfig.timeout =
+        timeout > 0 ? Math.min(timeout, remaining) : remaining
+    }
+
+    try {
+      return await send(attemptConfig)
+    } catch (error) {
+      if (!(await shouldRetry(retry, error, attempt, attemptConfig))) {
+        throw error
+      }
+
+      const delay = computeRetryDelay(retry, attempt, error)
+      if (
+        retry.deadline > 0 &&
+        Date.now() - startedAt + delay >= retry.deadline
+      ) {
+        throw error
+      }
+
+      onRetry?.(error, attemptConfig, delay)
+      await sleep(delay, attemptConfig)
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import type HttpClient from "./httpClient.js"
+import type { RequestConfigArgs } from "./httpClient.js"
+import { HttpClientResult, RequestConfig, ResponseConfig } from "./types.js"
+import { isHttpClientError } from "./utils.js"
+
+/**
+ * Resolve a request to its result, rejecting only with errors that are not
+ * HttpClientErrors.
+ *
+ * @param promise - The request promise.
+ * @returns The request result.
+ */
+async function settle<T, D>(
+  promise: Promise<ResponseConfig<T, D>>
+): Promise<HttpClientResult<T, D>> {
+  try {
+    return { ok: true, response: await promise }
+  } catch (error) {
+    if (!isHttpClientError(error)) {
+      throw error
+    }
+
+    return { ok: false, error }
+  }
+}
+
+/**
+ * The SafeHttpClient class sends requests through an HttpClient and resolves
+ * to a result instead of throwing HttpClientErrors. It is available as
+ * HttpClient.safe.
+ *
+ * @template ForceSignal - Whether to force the signal to be true or false
+ * @param client - The HttpClient sending the requests
+ *
+ * @example
+ * ```typescript
+ * const result = await httpClient.safe.get<User>("/users/1")
+ * if (result.ok) {
+ *   console.log(result.response.data)
+ * } else if (result.error.status === 404) {
+ *   console.log("Not found")
+ * }
+ * ```
+ */
+export default class SafeHttpClient<ForceSignal extends boolean = true> {
+  constructor(private client: HttpClient<ForceSignal>) {}
+
+  /**
+   * Send an HTTP request.
+   *
+   * @template T - The type of the response data, inferred from the schema
+   * @template D - The type of the request data
+   * @param config - The RequestConfig to use for the request
+   * @returns The HttpClientResult for the request
+   */
+  request<T = unknown, D = unknown>(
+    ...args: RequestConfigArgs<ForceSignal, D, T>
+  ): Promise<HttpClientResult<T, D>> {
+    return settle(this.client.request<T, D>(...args))
+  }
+
+  /**
+   * Get a resource.
+   *
+   * @template T - The type of the response data, inferred from the schema
+   * @template D - The type of the request data
+   * @param url - The URL to get the resource from
+   * @param config - The RequestConfig to use for the request
+   * @returns The HttpClientResult for the request
+   */
+  get<T = unknown, D = unknown>(
+    url: string | URL,
+    ...args: RequestConfigArgs<ForceSignal, D, T>
+  ): Promise<HttpClientResult<T, D>> {
+    return settle(this.client.get<T, D>(url, ...args))
+  }
+
+  /**
+   * Send a POST request.
+   *
+   * @template T - The type of the response data, inferred from the schema
+   * @template D - The type of the request data
+   * @param url - The URL to send the request to
+   * @param data - The data to send with the request
+   * @param config - The RequestConfig to use for the request
+   * @returns The HttpClientResult for the request
+   */
+  post<T = unknown, D = unknown>(
+    url: string | URL,
+    data: RequestConfig<D>["data"] | undefined,
+    ...args: RequestConfigArgs<ForceSignal, D, T>
+  ): Promise<HttpClientResult<T, D>> {
+    return settle(this.client.post<T, D>(url, data, ...args))
+  }
+
+  /**
+   * Send a PUT request.
+   *
+   * @template T - The type of the response data, inferred from the schema
+   * @template D - The type of the request data
+   * @param url - The URL to send the request to
+   * @param data - The data to send with the request
+   * @param config - The RequestConfig to use for the request
+   * @returns The HttpClientResult for the request
+   */
+  put<T = unknown, D = unknown>(
+    url: string | URL,
+    data: RequestConfig<D>["data"] | undefined,
+    ...args: RequestConfigArgs<ForceSignal, D, T>
+  ): Promise<HttpClientResult<T, D>> {
+    return settle(this.client.put<T, D>(url, data, ...args))
+  }
+
+  /**
+   * Send a PATCH request.
+   *
+   * @template T - The type of the response data, inferred from the schema
+   * @template D - The type of the request data
+   * @param url - The URL to send the request to
+   * @param data - The data to send with the request
+   * @param config - The RequestConfig to use for the request
+   * @returns The HttpClientResult for the request
+   */
+  patch<T = unknown, D = unknown>(
+    url: string | URL,
+    data: RequestConfig<D>["data"] | undefined,
+    ...args: RequestConfigArgs<ForceSignal, D, T>
+  ): Promise<HttpClientResult<T, D>> {
+    return settle(this.client.patch<T, D>(url, data, ...args))
+  }
+
+  /**
+   * Send a DELETE request.
+   *
+   * @template T - The type of the response data, inferred from the schema
+   * @template D - The type of the request data
+   * @param url - The URL to send the request to
+   * @param config - The RequestConfig to use for the request
+   * @returns The HttpClientResult for the request
+   */
+  delete<T = unknown, D = unknown>(
+    url: string | URL,
+    ...args: RequestConfigArgs<ForceSignal, D, T>
+  ): Promise<HttpClientResult<T, D>> {
+    return settle(this.client.delete<T, D>(url, ...args))
+  }
+
+  /**
+   * Send a HEAD request.
+   *
+   * @template T - The type of the response data, inferred from the schema
+   * @template D - The type of the request data
+   * @param url - The URL to send the request to
+   * @param config - The RequestConfig to use for the request
+   * @returns The HttpClientResult for the request
+   */
+  head<T = unknown, D = unknown>(
+    url: string | URL,
+    ...args: RequestConfigArgs<ForceSignal, D, T>
+  ): Promise<HttpClientResult<T, D>> {
+    return settle(this.client.head<T, D>(url, ...args))
+  }
+
+  /**
+   * Send a OPTIONS request.
+   *
+   * @template T - The type of the response data, inferred from the schema
+   * @template D - The type of the request data
+   * @param url - The URL to send the request to
+   * @param config - The RequestConfig to use for the request
+   * @returns The HttpClientResult for the request
+   */
+  options<T = unknown, D = unknown>(
+    url: string | URL,
+    ...args: RequestConfigArgs<ForceSignal, D, T>
+  ): Promise<HttpClientResult<T, D>> {
+    return settle(this.client.options<T, D>(url, ...args))
+  }
+
+  /**
+   * Send a PURGE request.
+   *
+   * @template T - The type of the response data, inferred from the schema
+   * @template D - The type of the request data
+   * @param url - The URL to send the request to
+   * @param config - The RequestConfig to use for the request
+   * @returns The HttpClientResult for the request
+   */
+  purge<T = unknown, D = unknown>(
+    url: string | URL,
+    ...args: RequestConfigArgs<ForceSignal, D, T>
+  ): Promise<HttpClientResult<T, D>> {
+    return settle(this.client.purge<T, D>(url, ...args))
+  }
+
+  /**
+   * Send a LINK request.
+   *
+   * @template T - The type of the response data, inferred from the schema
+   * @template D - The type of the request data
+   * @param url - The URL to send the request to
+   * @param config - The RequestConfig to use for the request
+   * @returns The HttpClientResult for the request
+   */
+  link<T = unknown, D = unknown>(
+    url: string | URL,
+    ...args: RequestConfigArgs<ForceSignal, D, T>
+  ): Promise<HttpClientResult<T, D>> {
+    return settle(this.client.link<T, D>(url, ...args))
+  }
+
+  /**
+   * Send a UNLINK request.
+   *
+   * @template T - The type of the response data, inferred from the schema
+   * @template D - The type of the request data
+   * @param url - The URL to send the request to
+   * @param config - The RequestConfig to use for the request
+   * @returns The HttpClientResult for the request
+   */
+  unlink<T = unknown, D = unknown>(
+    url: string | URL,
+    ...args: RequestConfigArgs<ForceSignal, D, T>
+  ): Promise<HttpClientResult<T, D>> {
+    return settle(this.client.unlink<T, D>(url, ...args))
+  }
+}
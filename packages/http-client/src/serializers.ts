@@ -0,0 +1,185 @@
+import { getMediaType } from "./parsers.js"
+import {
+  HttpClientSerializer,
+  RAWRequestConfig,
+  RAWRequestConfigForceSignal,
+} from "./types.js"
+
+type AnyRequestConfig = RAWRequestConfig | RAWRequestConfigForceSignal
+
+/**
+ * Check if a value is a file or blob, sent as a file in multipart bodies.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a Blob, false otherwise.
+ */
+function isBlob(value: unknown): value is Blob {
+  return typeof Blob !== "undefined" && value instanceof Blob
+}
+
+/**
+ * Check if a value holds nested values to flatten with bracket notation.
+ *
+ * @param value - The value to check.
+ * @returns True for arrays and objects other than dates and blobs.
+ */
+function isNested(value: unknown): value is object {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !(value instanceof Date) &&
+    !isBlob(value)
+  )
+}
+
+/**
+ * Flatten a value into key/value pairs with bracket notation: nested objects
+ * become `a[b]`, arrays of values `a[]` and arrays of objects `a[0][b]`.
+ *
+ * @param value - The value to flatten.
+ * @param prefix - The key of the value, empty for the root object.
+ * @param pairs - The pairs to append to.
+ * @returns The pairs, undefined values are skipped and null values are empty.
+ */
+function flatten(
+  value: unknown,
+  prefix: string = "",
+  pairs: [string, string | Blob][] = []
+): [string, string | Blob][] {
+  if (Array.isArray(value)) {
+    const indexed = value.some(isNested)
+    value.forEach((item, index) => {
+      flatten(item, `${prefix}[${indexed ? index : ""}]`, pairs)
+    })
+  } else if (isNested(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      flatten(item, prefix ? `${prefix}[${key}]` : key, pairs)
+    }
+  } else if (value instanceof Date) {
+    pairs.push([prefix, value.toISOString()])
+  } else if (isBlob(value)) {
+    pairs.push([prefix, value])
+  } else if (value === null) {
+    pairs.push([prefix, ""])
+  } else if (value !== undefined) {
+    pairs.push([prefix, String(value)])
+  }
+
+  return pairs
+}
+
+/**
+ * Check if request data contains files, so that it is sent as multipart.
+ *
+ * @param data - The request data.
+ * @returns True if a value of the data is a Blob, false otherwise.
+ */
+export function containsBlob(data: unknown): boolean {
+  if (isBlob(data)) {
+    return true
+  }
+
+  return isNested(data) && Object.values(data).some(containsBlob)
+}
+
+/**
+ * Serialize request data as JSON, with the jsonReplacer of the config.
+ *
+ * @param data - The request data.
+ * @param config - The request config.
+ * @returns The JSON body.
+ */
+export function serializeJSON(data: unknown, config: AnyRequestConfig) {
+  return JSON.stringify(data, config.jsonReplacer)
+}
+
+/**
+ * Serialize request data as newline-delimited JSON, one line per item of an
+ * array.
+ *
+ * @param data - The request data.
+ * @param config - The request config.
+ * @returns The NDJSON body.
+ */
+export function serializeNDJSON(data: unknown, config: AnyRequestConfig) {
+  const items = Array.isArray(data) ? data : [data]
+  return items.map((item) => `${serializeJSON(item, config)}\n`).join("")
+}
+
+/**
+ * Serialize request data as form-urlencoded, with bracket notation for
+ * nested values.
+ *
+ * @param data - The request data.
+ * @returns The URLSearchParams body.
+ */
+export function serializeURLEncoded(data: unknown) {
+  const params = new URLSearchParams()
+  for (const [key, value] of flatten(data)) {
+    params.append(key, isBlob(value) ? "" : value)
+  }
+
+  return params
+}
+
+/**
+ * Serialize request data as multipart, with bracket notation for nested
+ * values and files for Blob values.
+ *
+ * @param data - The request data.
+ * @returns The FormData body.
+ */
+export function serializeMultipart(data: unknown) {
+  const formData = new FormData()
+  for (const [key, value] of flatten(data)) {
+    formData.append(key, value)
+  }
+
+  return formData
+}
+
+/**
+ * The registered serializers, keyed by media type.
+ */
+export const serializers = new Map<string, HttpClientSerializer>([
+  ["application/json", serializeJSON],
+  ["application/x-ndjson", serializeNDJSON],
+  ["application/ndjson", serializeNDJSON],
+  ["application/x-www-form-urlencoded", serializeURLEncoded],
+  ["multipart/form-data", serializeMultipart],
+])
+
+/**
+ * Register a serializer for a media type, replacing any existing one.
+ *
+ * @param contentType - The media type, without parameters.
+ * @param serializer - The serializer.
+ */
+export function registerSerializer(
+  contentType: string,
+  serializer: HttpClientSerializer
+): void {
+  serializers.set(contentType.toLowerCase(), serializer)
+}
+
+/**
+ * Get the serializer of a Content-Type header. Structured syntax suffixes
+ * such as `application/vnd.api+json` fall back to their base type.
+ *
+ * @param contentType - The Content-Type header.
+ * @returns The serializer, or undefined if none is registered.
+ */
+export function getSerializer(
+  contentType: string | null
+): HttpClientSerializer | undefined {
+  const mediaType = getMediaType(contentType)
+  if (!mediaType) {
+    return undefined
+  }
+
+  const suffix = mediaType.match(/\+([a-z0-9-]+)$/)?.[1]
+  return (
+    serializers.get(mediaType) ||
+    (suffix ? serializers.get(`application/${suffix}`) : undefined)
+  )
+}
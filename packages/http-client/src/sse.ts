@@ -0,0 +1,233 @@
+import HttpClientError from "./httpClientError.js"
+import { getMediaType } from "./parsers.js"
+import { sleep } from "./retry.js"
+import {
+  RAWRequestConfig,
+  RAWRequestConfigForceSignal,
+  ResponseConfig,
+  ServerSentEvent,
+} from "./types.js"
+import { isHttpClientError } from "./utils.js"
+
+/**
+ * Parser of the text/event-stream format, fed with decoded chunks of text.
+ */
+class EventStreamParser {
+  // ID of the last event, sent as Last-Event-ID when reconnecting
+  lastEventId = ""
+
+  // Reconnection delay sent by the server, if any
+  retry?: number
+
+  private buffer = ""
+  private skipLineFeed = false
+  private event = ""
+  private data: string[] = []
+  private eventRetry?: number
+
+  /**
+   * Parse a chunk of the stream.
+   *
+   * @param chunk - The decoded chunk.
+   * @returns The events completed by the chunk.
+   */
+  feed(chunk: string): ServerSentEvent[] {
+    // A CRLF may be split between two chunks
+    if (this.skipLineFeed && chunk.startsWith("\n")) {
+      chunk = chunk.slice(1)
+    }
+    this.skipLineFeed = chunk.endsWith("\r")
+
+    const lines = (this.buffer + chunk).split(/\r\n|\r|\n/)
+    this.buffer = lines.pop()!
+
+    const events: ServerSentEvent[] = []
+    for (const line of lines) {
+      const event = this.parseLine(line)
+      if (event) {
+        events.push(event)
+      }
+    }
+
+    return events
+  }
+
+  /**
+   * Discard the incomplete event of a closed connection, keeping the last
+   * event ID and the reconnection delay.
+   */
+  reset(): void {
+    this.buffer = ""
+    this.skipLineFeed = false
+    this.event = ""
+    this.data = []
+    this.eventRetry = undefined
+  }
+
+  /**
+   * Parse a line of the stream.
+   *
+   * @param line - The line, without its line terminator.
+   * @returns The event dispatched by a blank line, if any.
+   */
+  private parseLine(line: string): ServerSentEvent | undefined {
+    if (line === "") {
+      return this.dispatch()
+    }
+    if (line.startsWith(":")) {
+      // Comment, such as a keep-alive
+      return undefined
+    }
+
+    const index = line.indexOf(":")
+    const field = index === -1 ? line : line.slice(0, index)
+    let value = index === -1 ? "" : line.slice(index + 1)
+    if (value.startsWith(" ")) {
+      value = value.slice(1)
+    }
+
+    if (field === "event") {
+      this.event = value
+    } else if (field === "data") {
+      this.data.push(value)
+    } else if (field === "id" && !value.includes("\0")) {
+      this.lastEventId = value
+    } else if (field === "retry" && /^\d+$/.test(value)) {
+      this.retry = Number(value)
+      this.eventRetry = this.retry
+    }
+
+    return undefined
+  }
+
+  /**
+   * Complete the current event.
+   *
+   * @returns The event, or undefined if it has no data.
+   */
+  private dispatch(): ServerSentEvent | undefined {
+    const event: ServerSentEvent | undefined =
+      this.data.length > 0
+        ? {
+            id: this.lastEventId,
+            event: this.event || "message",
+            data: this.data.join("\n"),
+            ...(this.eventRetry !== undefined && { retry: this.eventRetry }),
+          }
+        : undefined
+
+    this.event = ""
+    this.data = []
+    this.eventRetry = undefined
+
+    return event
+  }
+}
+
+/**
+ * Check if a failed connection may be reconnected.
+ *
+ * @param error - The error of the connection.
+ * @returns True for network errors and timeouts, false otherwise.
+ */
+function isReconnectable(error: unknown): boolean {
+  return (
+    isHttpClientError(error) &&
+    (error.code === HttpClientError.ERR_NETWORK ||
+      error.code === HttpClientError.ERR_TIMEDOUT)
+  )
+}
+
+/**
+ * Stream the server-sent events of a connection, reconnecting with the
+ * Last-Event-ID header when the connection closes or fails, as EventSource
+ * does.
+ *
+ * Reading errors and connection network errors and timeouts reconnect, other
+ * errors, such as an error status or a Content-Type other than
+ * text/event-stream, are thrown. A 204 response ends the stream, as does
+ * aborting the signal of the config or breaking out of the iteration.
+ *
+ * @param connect - Function sending the request of a connection, with the
+ * last event ID received, if any.
+ * @param config - The request config holding the signal and the reconnection
+ * policy.
+ * @returns The async iterable of events.
+ */
+export default async function* streamEvents(
+  connect: (lastEventId: string | undefined) => Promise<ResponseConfig>,
+  config: RAWRequestConfig | RAWRequestConfigForceSignal
+): AsyncGenerator<ServerSentEvent, void, undefined> {
+  const signal = config.signal || undefined
+  const reconnect = config.reconnect ?? true
+  const { delay = 3000, limit = Infinity } =
+    typeof reconnect === "object" ? reconnect : {}
+
+  const parser = new EventStreamParser()
+  let failures = 0
+
+  while (!signal?.aborted) {
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined
+    const cancel = () => {
+      reader?.cancel().catch(() => {})
+    }
+
+    try {
+      const response = await connect(parser.lastEventId || undefined)
+      if (response.status === 204) {
+        return
+      }
+
+      reader = (response.data as ReadableStream<Uint8Array> | null)?.getReader()
+
+      const contentType = response.headers.get("Content-Type")
+      if (getMediaType(contentType) !== "text/event-stream") {
+        throw new HttpClientError(
+          `Expected a text/event-stream response, got ${contentType || "no Content-Type"}`,
+          HttpClientError.ERR_BAD_RESPONSE,
+          response.requestConfig,
+          { ...response, isResponseConfig: true }
+        )
+      }
+
+      failures = 0
+      // Adapters stop observing the signal once the response is received
+      signal?.addEventListener("abort", cancel, { once: true })
+
+      const decoder = new TextDecoder()
+      try {
+        while (reader) {
+          const { done, value } = await reader.read()
+          if (done) {
+            break
+          }
+
+          yield* parser.feed(decoder.decode(value, { stream: true }))
+        }
+      } catch {
+        // The connection was lost while reading, reconnect
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        return
+      }
+      if (!reconnect || !isReconnectable(error) || ++failures > limit) {
+        throw error
+      }
+    } finally {
+      signal?.removeEventListener("abort", cancel)
+      cancel()
+    }
+
+    if (!reconnect || signal?.aborted) {
+      return
+    }
+
+    parser.reset()
+    try {
+      await sleep(parser.retry ?? delay, config)
+    } catch {
+      return
+    }
+  }
+}
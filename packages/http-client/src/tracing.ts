@@ -0,0 +1,171 @@
+import { buildRequestURL } from "./adapters/shared.js"
+import {
+  HttpClientMiddleware,
+  ResolvedRAWRequestConfig,
+  TraceSpan,
+  TraceSpanContext,
+  TracingOptions,
+} from "./types.js"
+import { isHttpClientError } from "./utils.js"
+
+// OpenTelemetry SpanKind.CLIENT
+const SPAN_KIND_CLIENT = 2
+
+// OpenTelemetry SpanStatusCode.ERROR
+const SPAN_STATUS_ERROR = 2
+
+/**
+ * Format a span context as a W3C traceparent header.
+ *
+ * @param spanContext - The span context.
+ * @returns The header value, or undefined for an invalid span context.
+ */
+function formatTraceparent(spanContext: TraceSpanContext): string | undefined {
+  const { traceId, spanId, traceFlags } = spanContext
+  if (!/^[0-9a-f]{32}$/.test(traceId) || /^0+$/.test(traceId)) {
+    return undefined
+  }
+  if (!/^[0-9a-f]{16}$/.test(spanId) || /^0+$/.test(spanId)) {
+    return undefined
+  }
+
+  const flags = (traceFlags & 0xff).toString(16).padStart(2, "0")
+  return `00-${traceId}-${spanId}-${flags}`
+}
+
+/**
+ * Record a failed request on its span.
+ *
+ * @param span - The span of the request.
+ * @param error - The request error.
+ */
+function recordError(span: TraceSpan, error: unknown) {
+  if (isHttpClientError(error) && error.status > 0) {
+    span.setAttribute("http.response.status_code", error.status)
+    span.setAttribute("error.type", String(error.status))
+  } else if (isHttpClientError(error) && typeof error.code === "string") {
+    span.setAttribute("error.type", error.code)
+  } else {
+    span.setAttribute("error.type", "_OTHER")
+  }
+
+  if (error instanceof Error) {
+    span.recordException(error)
+  }
+  span.setStatus({
+    code: SPAN_STATUS_ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  })
+}
+
+/**
+ * Create a middleware tracing every attempt in an OpenTelemetry client span
+ * and injecting its traceparent header, following the HTTP semantic
+ * conventions.
+ *
+ * The tracer is only used structurally, so that any OpenTelemetry API version
+ * or test double fits.
+ *
+ * @param options - The tracing options.
+ * @returns The tracing middleware.
+ *
+ * @example
+ * ```typescript
+ * import { context, trace } from "@opentelemetry/api"
+ *
+ * httpClient.use(
+ *   createTracingMiddleware({
+ *     tracer: trace.getTracer("http-client"),
+ *     getContext: () => context.active(),
+ *   })
+ * )
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // In tests, with the in-memory exporter of the tracing SDK
+ * import {
+ *   BasicTracerProvider,
+ *   InMemorySpanExporter,
+ *   SimpleSpanProcessor,
+ * } from "@opentelemetry/sdk-trace-base"
+ *
+ * const exporter = new InMemorySpanExporter()
+ * const provider = new BasicTracerProvider({
+ *   spanProcessors: [new SimpleSpanProcessor(exporter)],
+ * })
+ *
+ * const mock = new MockAdapter()
+ * mock.onGet("/users", { data: [] })
+ *
+ * const httpClient = new HttpClient({
+ *   baseURL: "https://api.example.com",
+ *   adapter: mock.adapter,
+ * })
+ * httpClient.use(createTracingMiddleware({ tracer: provider.getTracer("test") }))
+ *
+ * await httpClient.get("/users", { signal: false })
+ *
+ * const [span] = exporter.getFinishedSpans()
+ * console.log(span?.attributes["http.response.status_code"]) // 200
+ * ```
+ */
+export default function createTracingMiddleware(
+  options: TracingOptions
+): HttpClientMiddleware {
+  return async (ctx, next) => {
+    const config = ctx.config as ResolvedRAWRequestConfig<boolean>
+    const method = (config.method || "GET").toUpperCase()
+
+    const attributes: Record<string, string | number | boolean> = {
+      "http.request.method": method,
+    }
+    try {
+      const url = buildRequestURL(config)
+      attributes["url.full"] = url.href
+      attributes["server.address"] = url.hostname
+      attributes["server.port"] = Number(
+        url.port || (url.protocol === "https:" ? 443 : 80)
+      )
+    } catch {
+      // The adapter rejects the invalid URL, the span records the error
+    }
+    if (config.attempt && config.attempt > 1) {
+      attributes["http.request.resend_count"] = config.attempt - 1
+    }
+
+    const span = options.tracer.startSpan(
+      options.spanName ? options.spanName(config) : method,
+      { kind: SPAN_KIND_CLIENT, attributes },
+      options.getContext?.()
+    )
+
+    const propagate =
+      typeof options.propagate === "function"
+        ? options.propagate(config)
+        : options.propagate !== false
+    const traceparent = propagate && formatTraceparent(span.spanContext())
+    if (traceparent) {
+      const headers = new Headers(config.headers)
+      headers.set("traceparent", traceparent)
+      ctx.config = { ...config, headers }
+    }
+
+    try {
+      await next()
+
+      if (ctx.response) {
+        span.setAttribute("http.response.status_code", ctx.response.status)
+        if (ctx.response.status >= 400) {
+          span.setAttribute("error.type", String(ctx.response.status))
+          span.setStatus({ code: SPAN_STATUS_ERROR })
+        }
+      }
+    } catch (error) {
+      recordError(span, error)
+      throw error
+    } finally {
+      span.end()
+    }
+  }
+}
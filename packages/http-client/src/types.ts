@@ -1,3 +1,12 @@
+import type { Agent as HttpAgent } from "node:http"
+import type { Agent as HttpsAgent } from "node:https"
+
+import type ResponseCache from "./cache/responseCache.js"
+import type TokenAuth from "./auth.js"
+import type CircuitBreaker from "./circuitBreaker.js"
+import type HttpClientError from "./httpClientError.js"
+import type RateLimiter from "./rateLimiter.js"
+
 /**
  * The HTTP methods supported by the HttpClient.
  */
@@ -34,6 +43,8 @@ export type ResponseType =
   | "text"
   | "stream"
   | "formdata"
+  | "auto"
+  | "ndjson"
 
 /**
  * The search params supported by the HttpClient.
@@ -42,6 +53,428 @@ export type SearchParams =
   | URLSearchParams
   | Record<string, unknown | readonly unknown[]>
 
+/**
+ * The issue reported when response data fails validation.
+ */
+export type StandardSchemaIssue = {
+  // Issue message
+  readonly message: string
+
+  // Path of the invalid value in the data, defaults to the data itself
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+}
+
+/**
+ * The result of a Standard Schema validation.
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> }
+
+/**
+ * A Standard Schema compatible validator such as Zod, Valibot or ArkType.
+ *
+ * @see https://standardschema.dev
+ */
+export interface StandardSchema<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+    readonly types?: { readonly input: Input; readonly output: Output }
+  }
+}
+
+/**
+ * The response schema, either a Standard Schema validator or a parser
+ * function throwing on invalid data.
+ */
+export type ResponseSchema<T = unknown> =
+  | StandardSchema<unknown, T>
+  | ((data: unknown) => T | Promise<T>)
+
+/**
+ * The headers accepted in a request config, a null value in the record form
+ * removes a header set by the base config.
+ */
+export type HttpClientHeaders =
+  | HeadersInit
+  | Record<string, string | null | undefined>
+
+/**
+ * The proxy used by the 'http' adapter.
+ */
+export type HttpClientProxy = {
+  // Proxy protocol, defaults to 'http:'
+  protocol?: "http:" | "https:"
+
+  // Proxy host name
+  host: string
+
+  // Proxy port, defaults to 80 for 'http:' and 443 for 'https:'
+  port?: number
+
+  // Credentials sent in the Proxy-Authorization header, defaults to undefined
+  auth?: {
+    username: string
+    password: string
+  }
+}
+
+/**
+ * The progress event reported while a body is transferred.
+ */
+export type HttpClientProgressEvent = {
+  // Bytes transferred so far
+  loaded: number
+
+  // Total bytes to transfer, undefined when unknown
+  total?: number
+
+  // Bytes transferred since the previous event
+  bytes: number
+
+  // Fraction of the total transferred between 0 and 1, undefined when the total is unknown
+  progress?: number
+
+  // Transfer rate in bytes per second, undefined until it can be measured
+  rate?: number
+
+  // Estimated seconds left, undefined when the total or rate is unknown
+  estimated?: number
+}
+
+/**
+ * The retry config.
+ */
+export type RetryConfig = {
+  // Maximum number of retries after the first attempt, defaults to 0
+  limit?: number
+
+  // HTTP methods that may be retried, defaults to the idempotent methods
+  methods?: HttpClientMethod[]
+
+  // Response status codes that may be retried, defaults to [408, 429, 500, 502, 503, 504]
+  statusCodes?: number[]
+
+  // Delay before the first retry in milliseconds, defaults to 300
+  delay?: number
+
+  // Multiplier applied to the delay after each retry, defaults to 2
+  factor?: number
+
+  // Upper bound for a single delay in milliseconds, Retry-After included,
+  // defaults to 30 seconds
+  maxDelay?: number
+
+  // Whether to randomize the delay between 0 and the computed backoff, defaults to true
+  jitter?: boolean
+
+  // Whether to honor the Retry-After header on 429 and 503 responses, defaults to true
+  retryAfter?: boolean
+
+  // Total time budget for all attempts in milliseconds, defaults to 0 (no deadline)
+  deadline?: number
+
+  // Custom retry predicate, replaces the method and status checks when set
+  shouldRetry?: (
+    error: unknown,
+    attempt: number,
+    config: RAWRequestConfig | RAWRequestConfigForceSignal
+  ) => boolean | Promise<boolean>
+}
+
+/**
+ * The reconnection policy of server-sent event streams.
+ */
+export type ReconnectConfig = {
+  // Delay before reconnecting in milliseconds, replaced by the retry field
+  // sent by the server, defaults to 3 seconds
+  delay?: number
+
+  // Maximum number of consecutive failed reconnections, defaults to Infinity
+  limit?: number
+}
+
+/**
+ * A server-sent event.
+ */
+export type ServerSentEvent = {
+  // Event ID, the last ID received on the stream when the event has none
+  id: string
+
+  // Event type, defaults to 'message'
+  event: string
+
+  // Event data, data lines are joined with a line feed
+  data: string
+
+  // Reconnection delay in milliseconds sent with the event, if any
+  retry?: number
+}
+
+/**
+ * The strategy finding the next page of a paginated resource.
+ */
+export type PaginationStrategy = "link" | "cursor" | "page" | "offset"
+
+/**
+ * The pagination config of httpClient.paginate() and httpClient.pages().
+ */
+export type PaginationConfig = {
+  // Strategy finding the next page: the Link header with rel="next", a cursor
+  // in the response data, or a page number or offset search param incremented
+  // until a page has no items, defaults to 'link'
+  strategy?: PaginationStrategy
+
+  // Search param of the cursor, page number or offset, defaults to 'cursor',
+  // 'page' or 'offset'
+  param?: string
+
+  // Dot path of the next cursor in the response data, or function reading it,
+  // no cursor ends the pagination, defaults to 'next_cursor'
+  cursor?: string | ((response: ResponseConfig) => unknown)
+
+  // First page number of the 'page' strategy, defaults to 1
+  startPage?: number
+
+  // Items of a page, defaults to the response data if it is an array, or its
+  // 'items' or 'data' array
+  items?: (response: ResponseConfig) => unknown[]
+
+  // Config of the next page request merged into the initial config, its
+  // search params replacing the values of their names, replaces the strategy,
+  // return a falsy value to end the pagination
+  getNextRequest?: (
+    response: ResponseConfig,
+    items: unknown[],
+    page: number
+  ) =>
+    | RequestConfig
+    | false
+    | null
+    | undefined
+    | Promise<RequestConfig | false | null | undefined>
+
+  // Maximum number of pages requested, defaults to Infinity
+  maxPages?: number
+
+  // Maximum number of items, defaults to Infinity
+  maxItems?: number
+}
+
+/**
+ * The request deduplication config.
+ */
+export type DedupeConfig = {
+  // Header names included in the deduplication key,
+  // defaults to ['Accept', 'Accept-Language', 'Authorization', 'Cookie',
+  // 'If-Modified-Since', 'If-None-Match']
+  headers?: string[]
+
+  // Custom deduplication key, return undefined to send the request on its own
+  key?: (
+    config: RAWRequestConfig | RAWRequestConfigForceSignal
+  ) => string | undefined
+}
+
+/**
+ * A response stored by the ResponseCache.
+ */
+export type CacheEntry = {
+  // Request URL, matched on invalidation and reported as the response URL of
+  // cache hits, even when the response was redirected
+  url: string
+
+  // Response status
+  status: number
+
+  // Response status text
+  statusText: string
+
+  // Response headers
+  headers: [string, string][]
+
+  // Parsed response data
+  data: unknown
+
+  // Time the response was stored or last revalidated, in milliseconds since epoch
+  storedAt: number
+
+  // Time the response stays fresh after storedAt, in milliseconds
+  maxAge: number
+
+  // Time a stale response may still be served while it is revalidated, in milliseconds
+  staleWhileRevalidate: number
+
+  // Request header values the response varies on, keyed by lowercase name
+  vary: Record<string, string | null>
+
+  // Tags used to invalidate the response
+  tags: string[]
+}
+
+/**
+ * The storage used by the ResponseCache, implement it to share the cache
+ * between processes.
+ */
+export interface CacheStorage {
+  // Get an entry by key
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>
+
+  // Store an entry under a key
+  set(key: string, entry: CacheEntry): void | Promise<void>
+
+  // Delete an entry by key
+  delete(key: string): void | Promise<void>
+
+  // List every stored key
+  keys(): Iterable<string> | Promise<Iterable<string>>
+}
+
+/**
+ * The ResponseCache options.
+ */
+export type ResponseCacheOptions = {
+  // Storage of the cached responses, defaults to a MemoryCacheStorage
+  storage?: CacheStorage
+
+  // Custom cache key, return undefined to bypass the cache
+  key?: (
+    config: RAWRequestConfig | RAWRequestConfigForceSignal
+  ) => string | undefined
+}
+
+/**
+ * The TokenAuth options.
+ */
+export type TokenAuthOptions = {
+  // Get the current token, return undefined to send the request without it
+  getToken: () => string | null | undefined | Promise<string | null | undefined>
+
+  // Refresh the token and return the new one, requests sent from it must set
+  // auth to false
+  refreshToken: () => string | Promise<string>
+
+  // Authorization scheme prepended to the token, defaults to 'Bearer'
+  scheme?: string
+
+  // Whether a failed request must refresh the token and be replayed,
+  // defaults to 401 responses
+  shouldRefresh?: (error: HttpClientError) => boolean
+}
+
+/**
+ * The state of a circuit.
+ */
+export type CircuitState = "closed" | "open" | "half-open"
+
+/**
+ * The CircuitBreaker options.
+ */
+export type CircuitBreakerOptions = {
+  // Key of the circuit a request goes through, defaults to the request origin
+  key?: (config: RAWRequestConfig | RAWRequestConfigForceSignal) => string
+
+  // Consecutive failures opening the circuit, defaults to 5
+  failureThreshold?: number
+
+  // Failure rate opening the circuit, between 0 and 1, defaults to 0.5
+  failureRateThreshold?: number
+
+  // Number of latest requests the failure rate is computed over, defaults to 20
+  windowSize?: number
+
+  // Requests in the window before the failure rate applies, defaults to 10
+  minimumRequests?: number
+
+  // Time in milliseconds the circuit stays open before trial requests are
+  // let through, defaults to 30000
+  coolDown?: number
+
+  // Trial requests that must succeed while half-open to close the circuit,
+  // defaults to 1
+  halfOpenRequests?: number
+
+  // Whether an error counts as a failure, defaults to network errors,
+  // timeouts and 5xx responses
+  isFailure?: (error: HttpClientError) => boolean
+}
+
+/**
+ * The event emitted when a circuit changes state.
+ */
+export type CircuitStateChangeEvent = {
+  key: string
+  from: CircuitState
+  to: CircuitState
+  failures: number
+  failureRate: number
+}
+
+/**
+ * The RateLimiter options.
+ */
+export type RateLimiterOptions = {
+  // Requests allowed per interval, defaults to no rate limit
+  limit?: number
+
+  // Interval of the rate limit in milliseconds, defaults to 1000
+  interval?: number
+
+  // Requests allowed at once after an idle period, defaults to limit
+  burst?: number
+
+  // Requests in flight at once, defaults to no concurrency limit
+  concurrency?: number
+
+  // Key of the lane a request is limited in, defaults to the request origin,
+  // return a constant to limit every request of the client together
+  key?: (config: RAWRequestConfig | RAWRequestConfigForceSignal) => string
+}
+
+/**
+ * The request body serializer of a content type.
+ */
+export type HttpClientSerializer = (
+  data: unknown,
+  config: RAWRequestConfig | RAWRequestConfigForceSignal
+) => RequestInit["body"]
+
+/**
+ * The response body parser of a content type, used by the 'auto' response
+ * type.
+ */
+export type HttpClientParser = (
+  response: Response,
+  config: RAWRequestConfig | RAWRequestConfigForceSignal
+) => unknown
+
+/**
+ * The context shared by the middleware of a request.
+ */
+export type MiddlewareContext = {
+  // Request config, middleware may replace it before calling next
+  config: RAWRequestConfig | RAWRequestConfigForceSignal
+
+  // Response config, set once next resolves or by a middleware short-circuiting
+  // the request
+  response?: RAWResponseConfig
+
+  // Error, set once next rejects
+  error?: unknown
+}
+
+/**
+ * The HttpClient middleware, wrapping the dispatch of every attempt.
+ */
+export type HttpClientMiddleware = (
+  ctx: MiddlewareContext,
+  next: () => Promise<void>
+) => void | Promise<void>
+
 /**
  * The HttpClient adapter interface.
  */
@@ -49,21 +482,71 @@ export interface HttpClientAdapter<ForceSignal extends boolean> {
   (config: ResolvedRAWRequestConfig<ForceSignal>): Promise<RAWResponseConfig>
 }
 
+/**
+ * The registered HttpClient adapter names, extend it through declaration
+ * merging when registering a custom adapter.
+ *
+ * @example
+ * ```typescript
+ * declare module "@surge/http-client" {
+ *   interface HttpClientAdapterNames {
+ *     "node-http": true
+ *   }
+ * }
+ * ```
+ */
+export interface HttpClientAdapterNames {
+  fetch: true
+  http: true
+}
+
 /**
  * The HttpClient adapter name.
  */
-export type HttpClientAdapterName = "fetch"
+export type HttpClientAdapterName = keyof HttpClientAdapterNames
+
+/**
+ * The features an HttpClient adapter may support.
+ */
+export type HttpClientAdapterCapabilities = {
+  // Whether ReadableStream request bodies can be sent
+  streamingUpload?: boolean
+
+  // Whether upload and download progress can be reported
+  progress?: boolean
+
+  // Whether requests can be sent over HTTP/2
+  http2?: boolean
+}
+
+/**
+ * The definition of a registered HttpClient adapter.
+ */
+export type HttpClientAdapterDefinition = {
+  // Adapter function
+  adapter: HttpClientAdapter<boolean>
+
+  // Whether the adapter can run in the current runtime, defaults to always
+  isAvailable?: () => boolean
+
+  // Features supported by the adapter, defaults to none
+  capabilities?: HttpClientAdapterCapabilities
+}
 
 /**
  * The RAW request config.
  */
-export type RAWRequestConfig<D = unknown> = Omit<
+export type RAWRequestConfig<D = unknown, T = unknown> = Omit<
   RequestInit,
   "body" | "method"
 > & {
   readonly isRequestConfig: true
 
-  adapter?: HttpClientAdapter<false> | HttpClientAdapterName
+  // Adapter or ordered adapter fallback list, defaults to 'fetch'
+  adapter?:
+    | HttpClientAdapter<false>
+    | HttpClientAdapterName
+    | (HttpClientAdapter<false> | HttpClientAdapterName)[]
 
   // Base URL to use for the request, defaults to undefined
   baseURL?: string | URL
@@ -83,10 +566,111 @@ export type RAWRequestConfig<D = unknown> = Omit<
   // Timeout for the request, defaults to 30 seconds, set to 0 for no timeout
   timeout?: number
 
-  // Response type to use for the request, defaults to 'json'
+  // Response type to use for the request, 'auto' picks the parser of the
+  // response Content-Type and 'ndjson' iterates over the parsed lines of the
+  // body as it is received, defaults to 'json'
   responseType?: ResponseType
 
+  // Schema validating the response data before the response interceptors,
+  // the response data type is inferred from it, defaults to undefined
+  schema?: ResponseSchema<T>
+
+  // Schema validating each line of an 'ndjson' response as it is iterated,
+  // the line is replaced by the schema output, defaults to undefined
+  lineSchema?: ResponseSchema
+
+  // Whether a response status resolves the request instead of throwing,
+  // defaults to accepting 2xx status codes
+  validateStatus?: (status: number) => boolean
+
+  // Retry policy, a number is shorthand for { limit }, defaults to no retries
+  retry?: number | RetryConfig
+
+  // Current attempt number starting at 1, set by the HttpClient
+  attempt?: number
+
+  // Number of times the request was replayed by interceptors, set by the HttpClient
+  replays?: number
+
+  // Maximum number of replays through the interceptor context, defaults to 3
+  maxReplays?: number
+
+  // Share one adapter call between concurrent identical GET and HEAD requests,
+  // defaults to false
+  dedupe?: boolean | DedupeConfig
+
+  // Cache storing GET and HEAD responses, set to false to bypass it,
+  // defaults to undefined
+  responseCache?: ResponseCache | false
+
+  // Token authentication adding the Authorization header, set to false for
+  // public endpoints, defaults to undefined
+  auth?: TokenAuth | false
+
+  // Circuit breaker failing fast while a host or route is failing, set to
+  // false to bypass it, defaults to undefined
+  circuitBreaker?: CircuitBreaker | false
+
+  // Rate and concurrency limiter queuing requests over the limits, set to false
+  // to bypass it, defaults to undefined
+  rateLimiter?: RateLimiter | false
+
+  // Priority of the request in the rate limiter queue, higher runs first,
+  // defaults to 0
+  priority?: number
+
+  // Serialize the request data, overrides the serializer of the Content-Type
+  // header, defaults to undefined
+  serialize?: HttpClientSerializer
+
+  // Replacer of the JSON serializers, such as one converting BigInt values,
+  // defaults to undefined
+  jsonReplacer?: (this: unknown, key: string, value: unknown) => unknown
+
+  // Reviver of the JSON parsers, such as one reviving dates, defaults to
+  // undefined
+  jsonReviver?: (this: unknown, key: string, value: unknown) => unknown
+
+  // Middleware run inside the client middleware, defaults to undefined
+  middleware?: HttpClientMiddleware[]
+
+  // Reconnection policy of httpClient.sse() streams, set to false to end the
+  // stream when the connection closes, defaults to true
+  reconnect?: boolean | ReconnectConfig
+
+  // Pagination of httpClient.paginate() and httpClient.pages() requests,
+  // defaults to following the Link header
+  pagination?: PaginationConfig
+
+  // Called as the request body is sent, defaults to undefined
+  // Bodies are streamed to report progress, so the 'fetch' adapter rejects it
+  // with ERR_BAD_CONFIG_VALUE where request streams are not supported, and
+  // requires HTTP/2 in browsers
+  onUploadProgress?: (event: HttpClientProgressEvent) => void
+
+  // Called as the response body is received, defaults to undefined
+  onDownloadProgress?: (event: HttpClientProgressEvent) => void
+
+  // Agent for http: requests in the 'http' adapter, defaults to the global agent
+  httpAgent?: HttpAgent
+
+  // Agent for https: requests in the 'http' adapter, defaults to the global agent
+  httpsAgent?: HttpsAgent
+
+  // Proxy for the 'http' adapter, defaults to the HTTP(S)_PROXY and NO_PROXY
+  // environment variables, set to false to ignore them
+  proxy?: HttpClientProxy | false
+
+  // Maximum number of redirects followed by the 'http' adapter, defaults to 20
+  maxRedirects?: number
+
+  // Maximum response body size in bytes for the 'http' adapter, defaults to -1 (no limit)
+  maxContentLength?: number
+
   // Next.js 16 fetch extensions, defaults to undefined
+  // Also used by the ResponseCache: revalidate overrides the response freshness
+  // in seconds (false caches indefinitely, 0 disables caching) and tags allow
+  // invalidating the cached response
   revalidate?: number | false
   next?: {
     // Whether to revalidate the request, defaults to undefined
@@ -99,11 +683,14 @@ export type RAWRequestConfig<D = unknown> = Omit<
 /**
  * The RAW request config with force signal.
  */
-export type RAWRequestConfigForceSignal<D = unknown> = Omit<
-  RAWRequestConfig<D>,
+export type RAWRequestConfigForceSignal<D = unknown, T = unknown> = Omit<
+  RAWRequestConfig<D, T>,
   "adapter" | "signal"
 > & {
-  adapter?: HttpClientAdapter<true> | HttpClientAdapterName
+  adapter?:
+    | HttpClientAdapter<true>
+    | HttpClientAdapterName
+    | (HttpClientAdapter<true> | HttpClientAdapterName)[]
   signal: AbortSignal | false
 }
 
@@ -113,26 +700,34 @@ export type RAWRequestConfigForceSignal<D = unknown> = Omit<
 export type ResolvedRAWRequestConfig<
   ForceSignal extends boolean,
   D = unknown,
+  T = unknown,
 > = ForceSignal extends true
-  ? RAWRequestConfigForceSignal<D>
-  : RAWRequestConfig<D>
+  ? RAWRequestConfigForceSignal<D, T>
+  : RAWRequestConfig<D, T>
 
 /**
  * The request config.
  */
-export type RequestConfig<D = unknown> = Omit<
-  RAWRequestConfig<D>,
-  "isRequestConfig"
->
+export type RequestConfig<D = unknown, T = unknown> = Omit<
+  RAWRequestConfig<D, T>,
+  "isRequestConfig" | "headers"
+> & {
+  // Headers merged case-insensitively with the base config headers, set a
+  // header to null in a record to remove it, defaults to undefined
+  headers?: HttpClientHeaders
+}
 
 /**
  * The request config with force signal.
  */
-export type RequestConfigForceSignal<D = unknown> = Omit<
-  RequestConfig<D>,
+export type RequestConfigForceSignal<D = unknown, T = unknown> = Omit<
+  RequestConfig<D, T>,
   "adapter" | "signal"
 > & {
-  adapter?: HttpClientAdapter<true> | HttpClientAdapterName
+  adapter?:
+    | HttpClientAdapter<true>
+    | HttpClientAdapterName
+    | (HttpClientAdapter<true> | HttpClientAdapterName)[]
   signal: AbortSignal | false
 }
 
@@ -142,19 +737,83 @@ export type RequestConfigForceSignal<D = unknown> = Omit<
 export type ResolvedRequestConfig<
   ForceSignal extends boolean,
   D = unknown,
-> = ForceSignal extends true ? RequestConfigForceSignal<D> : RequestConfig<D>
+  T = unknown,
+> = ForceSignal extends true
+  ? RequestConfigForceSignal<D, T>
+  : RequestConfig<D, T>
+
+/**
+ * The timings of a request, monotonic timestamps in milliseconds from
+ * performance.now().
+ */
+export type HttpClientTimings = {
+  // Time the request was sent through the client, before the request
+  // interceptors of its first attempt
+  requestStart?: number
+
+  // Time the request interceptors of the attempt completed
+  interceptorsEnd?: number
+
+  // Time spent queued by the rate limiter before start, if any
+  wait?: number
+
+  // Time the adapter started the request
+  start: number
+
+  // Time the response headers were received
+  headers?: number
+
+  // Time the response body was read and parsed and the response settled
+  end: number
+
+  // Time between start and end
+  duration: number
+
+  // Time the response interceptors completed
+  responseEnd?: number
+
+  // Attempt number of the response, starting at 1
+  attempt?: number
+
+  // Resource timing entry of the request, on platforms exposing it
+  resource?: PerformanceResourceTiming
+}
 
 /**
  * The RAW response config.
  */
-export type RAWResponseConfig<T = unknown, D = unknown> = Response & {
+export type RAWResponseConfig<T = unknown, D = unknown> = {
   readonly isResponseConfig: true
 
-  // Request configuration
-  requestConfig: RAWRequestConfig<D> | RAWRequestConfigForceSignal<D>
+  // Response status code
+  status: number
+
+  // Response status text
+  statusText: string
+
+  // Whether the status code is in the 2xx range
+  ok: boolean
+
+  // Response headers
+  headers: Headers
+
+  // Final response URL, after redirects
+  url: string
+
+  // Whether the response is the result of a redirect
+  redirected: boolean
 
   // Response data
   data?: T
+
+  // Request timings
+  timings: HttpClientTimings
+
+  // Request configuration
+  requestConfig: RAWRequestConfig<D> | RAWRequestConfigForceSignal<D>
+
+  // Raw response, its body is already consumed unless responseType is 'stream'
+  raw: Response
 }
 
 /**
@@ -164,3 +823,216 @@ export type ResponseConfig<T = unknown, D = unknown> = Omit<
   RAWResponseConfig<T, D>,
   "isResponseConfig"
 >
+
+/**
+ * The result of a request sent through HttpClient.safe, a failed request
+ * resolves with its HttpClientError instead of throwing it.
+ */
+export type HttpClientResult<T = unknown, D = unknown> =
+  | { ok: true; response: ResponseConfig<T, D>; error?: undefined }
+  | { ok: false; response?: undefined; error: HttpClientError }
+
+/**
+ * The event emitted when a request is sent.
+ */
+export type HttpClientRequestEvent = {
+  // Request config of the attempt
+  config: RAWRequestConfig | RAWRequestConfigForceSignal
+
+  // Attempt number, starting at 1
+  attempt: number
+
+  // Time the request was sent, from performance.now()
+  start: number
+}
+
+/**
+ * The event emitted when a request succeeds.
+ */
+export type HttpClientResponseEvent = HttpClientRequestEvent & {
+  response: RAWResponseConfig
+  timings: HttpClientTimings
+}
+
+/**
+ * The event emitted when a request fails, including when it is aborted or
+ * times out.
+ */
+export type HttpClientErrorEvent = HttpClientRequestEvent & {
+  error: unknown
+
+  // HttpClientError code, undefined for other errors
+  code?: unknown
+
+  timings: HttpClientTimings
+}
+
+/**
+ * The event emitted before a failed attempt is retried.
+ */
+export type HttpClientRetryEvent = HttpClientErrorEvent & {
+  // Delay before the next attempt in milliseconds
+  delay: number
+}
+
+/**
+ * The events emitted by HttpClient.events.
+ */
+export type HttpClientEventMap = {
+  request: HttpClientRequestEvent
+  response: HttpClientResponseEvent
+  error: HttpClientErrorEvent
+  retry: HttpClientRetryEvent
+  abort: HttpClientErrorEvent
+  timeout: HttpClientErrorEvent
+}
+
+/**
+ * The span context of an OpenTelemetry span.
+ */
+export type TraceSpanContext = {
+  traceId: string
+  spanId: string
+  traceFlags: number
+}
+
+/**
+ * The subset of the OpenTelemetry Span interface used by the tracing
+ * middleware.
+ */
+export interface TraceSpan {
+  spanContext(): TraceSpanContext
+  setAttribute(key: string, value: string | number | boolean): unknown
+  setStatus(status: { code: number; message?: string }): unknown
+  recordException(exception: Error | string): unknown
+  end(): void
+}
+
+/**
+ * The subset of the OpenTelemetry Tracer interface used by the tracing
+ * middleware.
+ */
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: {
+      kind?: number
+      attributes?: Record<string, string | number | boolean>
+    },
+    context?: unknown
+  ): TraceSpan
+}
+
+/**
+ * The tracing middleware options.
+ */
+export type TracingOptions = {
+  // Tracer creating the client spans, such as trace.getTracer("http-client")
+  tracer: Tracer
+
+  // Parent context of the spans, such as () => context.active(), defaults to
+  // the tracer default
+  getContext?: () => unknown
+
+  // Name of the span of a request, defaults to the request method
+  spanName?: (config: RAWRequestConfig | RAWRequestConfigForceSignal) => string
+
+  // Whether to inject the traceparent header, for every request or per
+  // request with a function, defaults to true
+  propagate?:
+    | boolean
+    | ((config: RAWRequestConfig | RAWRequestConfigForceSignal) => boolean)
+}
+
+/**
+ * The level of a log record.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+/**
+ * The record logged for a request, a response or an error.
+ */
+export type LogRecord = {
+  level: LogLevel
+  type: "request" | "response" | "error"
+
+  // Formatted record
+  message: string
+
+  method: string
+
+  // Request URL, with its redacted search params
+  url: string
+
+  // Attempt number, starting at 1
+  attempt: number
+
+  // Request headers for request records, response headers otherwise,
+  // redacted
+  headers: Record<string, string>
+
+  // Body, redacted and truncated, undefined when empty or not logged
+  body?: string
+
+  status?: number
+
+  // Time between the request and the response or error in milliseconds
+  duration?: number
+
+  // HttpClientError code of error records
+  code?: unknown
+
+  // Error message of error records
+  error?: string
+}
+
+/**
+ * The redaction rules of the logger.
+ */
+export type LogRedaction = {
+  // Header names, case-insensitive, defaults to authorization, cookie,
+  // proxy-authorization, set-cookie and x-api-key
+  headers?: string[]
+
+  // Key names of JSON body values at any depth, also matched against the
+  // fields of URL-encoded bodies, case-insensitive, defaults to access_token,
+  // api_key, apikey, client_secret, password, refresh_token, secret and token
+  keys?: string[]
+
+  // Dot paths of JSON body values, '*' matching any key or index, defaults to
+  // undefined
+  paths?: string[]
+
+  // Search param names, case-insensitive, defaults to access_token, api_key
+  // and token
+  searchParams?: string[]
+
+  // Value replacing the redacted values, defaults to '[REDACTED]'
+  replacement?: string
+}
+
+/**
+ * The logger middleware options.
+ */
+export type LoggerOptions = {
+  // Minimum level of the logged records, request records are logged at
+  // debug, responses at info, responses with a 4xx or 5xx status at warn and
+  // errors at error, defaults to 'info'
+  level?: LogLevel | "silent"
+
+  // Output of the records, defaults to the console method of their level
+  sink?: (record: LogRecord) => void
+
+  // Format of the record message, 'curl' formats request records as a curl
+  // command and the others as a line, defaults to 'line'
+  format?: "line" | "json" | "curl" | ((record: LogRecord) => string)
+
+  // Redaction rules, merged with the defaults
+  redact?: LogRedaction
+
+  // Whether to log request and response bodies, defaults to true
+  bodies?: boolean
+
+  // Maximum logged body size in characters, defaults to 1024
+  maxBodySize?: number
+}
@@ -0,0 +1,89 @@
+import HttpClientError from "./httpClientError.js"
+import {
+  RAWResponseConfig,
+  ResponseSchema,
+  StandardSchemaIssue,
+  StandardSchemaResult,
+} from "./types.js"
+
+/**
+ * Run a response schema against the response data.
+ *
+ * @param schema - The response schema.
+ * @param data - The response data.
+ * @returns The validation result.
+ */
+export async function runSchema(
+  schema: ResponseSchema,
+  data: unknown
+): Promise<StandardSchemaResult<unknown>> {
+  if (typeof schema !== "function") {
+    return schema["~standard"].validate(data)
+  }
+
+  try {
+    return { value: await schema(data) }
+  } catch (error) {
+    return {
+      issues: [
+        { message: error instanceof Error ? error.message : String(error) },
+      ],
+    }
+  }
+}
+
+/**
+ * Format validation issues into an error message.
+ *
+ * @param issues - The validation issues.
+ * @returns The error message.
+ */
+export function formatIssues(
+  issues: ReadonlyArray<StandardSchemaIssue>
+): string {
+  return issues
+    .map((issue) => {
+      const path = (issue.path || [])
+        .map((segment) =>
+          String(typeof segment === "object" ? segment.key : segment)
+        )
+        .join(".")
+
+      return path ? `${path}: ${issue.message}` : issue.message
+    })
+    .join("; ")
+}
+
+/**
+ * Validate the response data against the schema of its request config.
+ *
+ * The response data is replaced by the schema output, so that schemas may
+ * transform it.
+ *
+ * @param responseConfig - The response config.
+ * @returns The validated response config.
+ */
+const validateResponse = async <T = unknown, D = unknown>(
+  responseConfig: RAWResponseConfig<T, D>
+): Promise<RAWResponseConfig<T, D>> => {
+  const { requestConfig } = responseConfig
+  if (!requestConfig.schema) {
+    return responseConfig
+  }
+
+  const result = await runSchema(requestConfig.schema, responseConfig.data)
+
+  if (result.issues) {
+    throw new HttpClientError(
+      `Response validation failed: ${formatIssues(result.issues)}`,
+      HttpClientError.ERR_VALIDATION,
+      requestConfig,
+      responseConfig,
+      result.issues
+    )
+  }
+
+  return { ...responseConfig, data: result.value as T }
+}
+
+export default validateResponse